@@ -1,16 +1,18 @@
-import { app, BrowserWindow, IpcMainInvokeEvent, ipcMain } from 'electron';
+import { app, BrowserWindow, IpcMainInvokeEvent, ipcMain, powerMonitor } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
-import {
-  registerElectronArchitectureHandlers,
-  registerElectronDevelopmentHandlers,
-  registerElectronIntroHandlers,
-  registerElectronNativeApisHandlers,
-  registerElectronPackagingHandlers,
-  registerElectronPerformanceHandlers,
-  registerElectronSecurityHandlers,
-  registerElectronVersionsHandlers,
-} from './src/backend/use-cases';
+import { registerAppHandlers } from './src/backend/handlers/app';
+import { registerFileHandlers } from './src/backend/handlers/files';
+import { registerSettingsHandlers } from './src/backend/handlers/settings';
+import { registerTopicHandlers } from './src/backend/handlers/topics';
+import { registerWindowHandlers } from './src/backend/handlers/windows';
+import { registerWorkspaceHandlers } from './src/backend/handlers/workspace';
+import { ConfigUtils } from './src/backend/lib/config/config';
+import { IpcUtils } from './src/backend/lib/ipc/ipc';
+import { SecurityUtils } from './src/backend/lib/security/security';
+import { TopicUtils } from './src/backend/lib/topics/topics';
+import { UseCaseUtils } from './src/backend/lib/use-cases/use-cases';
+import { WindowUtils } from './src/backend/lib/windows/windows';
 
 // Define types for our application
 type WindowState = {
@@ -21,6 +23,7 @@ type WindowState = {
   webPreferences: {
     nodeIntegration: boolean;
     contextIsolation: boolean;
+    sandbox: boolean;
     preload: string;
   };
 };
@@ -31,6 +34,10 @@ const args = process.argv.slice(1);
 const isDevModeArg = args.some((arg) => arg === '--dev' || arg === '--start-dev');
 const isDev = isDevModeArg || (!app.isPackaged && process.env.NODE_ENV !== 'production');
 
+// This file runs as dist-ts/main.js, started by main.cjs at the app root; its
+// modules are required from dist-ts, app files are resolved from the root
+const appRoot = path.join(__dirname, '..');
+
 let mainWindow: BrowserWindow | null;
 
 // Get the development server port
@@ -42,7 +49,7 @@ function getDevPort(): number {
 
   // Then try config file
   try {
-    const configPath = path.join(__dirname, '.dev-port.json');
+    const configPath = path.join(appRoot, '.dev-port.json');
     if (fs.existsSync(configPath)) {
       const data = JSON.parse(fs.readFileSync(configPath, 'utf8'));
       if (data.port) return data.port;
@@ -55,39 +62,51 @@ function getDevPort(): number {
   return 3000;
 }
 
-function createWindow(): void {
+// Get the URL the renderer is loaded from; IPC calls are only trusted from this URL
+function getAppUrl(): string {
+  if (isDev) {
+    return `http://localhost:${getDevPort()}`;
+  }
+  // In production build, the HTML file is in the dist directory of the app root
+  return `file://${path.join(appRoot, 'dist/index.html')}`;
+}
+
+// Options shared by the main window and detached use-case windows
+function getWindowOptions(): WindowState {
+  const { hardening } = SecurityUtils.getSecurityConfig();
   const options: WindowState = {
     width: 1024,
     height: 768,
     minWidth: 800,
     minHeight: 600,
     webPreferences: {
-      nodeIntegration: false,
-      contextIsolation: true,
-      preload: path.join(__dirname, 'preload.js'),
+      nodeIntegration: !hardening.disableNodeIntegration,
+      contextIsolation: hardening.enableContextIsolation,
+      sandbox: hardening.enableSandbox,
+      preload: path.join(appRoot, 'preload.js'),
     },
   };
 
   // Set icon path based on environment
   if (isDev) {
-    options.webPreferences.preload = path.join(__dirname, 'preload.js');
+    options.webPreferences.preload = path.join(appRoot, 'preload.js');
     // In development, icon should be in the project root assets folder
-    (options as any).icon = path.join(__dirname, '../src/assets/icon.png');
+    (options as any).icon = path.join(appRoot, 'src/assets/icon.png');
   } else {
     // In production, icon should be in the resources folder
     (options as any).icon = path.join(process.resourcesPath, 'icon.png');
   }
+  return options;
+}
 
-  mainWindow = new BrowserWindow(options);
+function createWindow(): void {
+  mainWindow = new BrowserWindow(getWindowOptions());
 
   // Load the appropriate URL based on environment
+  const appUrl = getAppUrl();
+  mainWindow.loadURL(appUrl);
   if (isDev) {
-    const devPort = getDevPort();
-    mainWindow.loadURL(`http://localhost:${devPort}`);
-    console.log(`[Main] Loading dev server from port: ${devPort}`);
-  } else {
-    // In production build, the HTML file is in the dist directory relative to main.js
-    mainWindow.loadURL(`file://${path.join(__dirname, 'dist/index.html')}`);
+    console.log(`[Main] Loading dev server from: ${appUrl}`);
   }
 
   // Comment out automatic DevTools opening in development mode
@@ -97,20 +116,51 @@ function createWindow(): void {
 
   mainWindow.on('closed', () => {
     mainWindow = null;
+    // Detached windows cannot dock back without the main window
+    WindowUtils.closeAll();
   });
 }
 
 // Handle app startup
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
+  // Apply security.config.json and only trust IPC calls from the app itself
+  SecurityUtils.loadSecurityConfig(path.join(appRoot, 'security.config.json'));
+  IpcUtils.setTrustedOrigins([getAppUrl()]);
+
   // Register all IPC handlers
-  registerElectronIntroHandlers();
-  registerElectronArchitectureHandlers();
-  registerElectronSecurityHandlers();
-  registerElectronPackagingHandlers();
-  registerElectronNativeApisHandlers();
-  registerElectronPerformanceHandlers();
-  registerElectronDevelopmentHandlers();
-  registerElectronVersionsHandlers();
+  registerAppHandlers();
+  registerFileHandlers();
+  registerWorkspaceHandlers();
+  registerWindowHandlers();
+  registerSettingsHandlers();
+  registerTopicHandlers();
+  WindowUtils.configure(getWindowOptions, getAppUrl());
+  // Every folder under src/use-cases registers its own handlers, loaded compiled from dist-ts
+  const useCasesDir = path.join(__dirname, 'src', 'use-cases');
+  await UseCaseUtils.loadUseCases(useCasesDir);
+  if (isDev) {
+    // Reload a use case's handlers when its sources change, keeping windows alive
+    const sourceDir = path.join(appRoot, 'src', 'use-cases');
+    UseCaseUtils.watchUseCases(sourceDir, useCasesDir, (manifest) => {
+      IpcUtils.broadcastMessage('use-case-reloaded', {
+        id: manifest.id,
+        timestamp: new Date().toISOString(),
+      });
+    });
+  }
+
+  // Forward main-process events the renderer can subscribe to
+  ConfigUtils.onChange((keys) => IpcUtils.broadcastMessage('config-changed', { keys }));
+  TopicUtils.onChange((topics) => IpcUtils.broadcastMessage('user-topics-changed', { topics }));
+  WindowUtils.onChange((windows) => {
+    IpcUtils.broadcastMessage('detached-windows-changed', { windows });
+  });
+  powerMonitor.on('suspend', () => {
+    IpcUtils.broadcastMessage('system-suspend', { timestamp: new Date().toISOString() });
+  });
+  powerMonitor.on('resume', () => {
+    IpcUtils.broadcastMessage('system-resume', { timestamp: new Date().toISOString() });
+  });
 
   createWindow();
 
@@ -1,13 +1,100 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, type IpcRendererEvent, ipcRenderer } from 'electron';
+import type {
+  ElectronAPI,
+  IpcEventChannel,
+  IpcInvokeEnvelope,
+  IpcStreamControl,
+  IpcStreamIterator,
+  IpcStreamMessage,
+} from './src/shared/ipc-channels';
 
-// Define types for our API
-export type ElectronAPI = {
-  // Example API methods can be added here
+export type { ElectronAPI };
+
+// Event channels the renderer may subscribe to. Typed as a record so that
+// adding a channel to IpcEventMap without allowing it here fails to compile.
+const allowedEventChannels: Record<IpcEventChannel, true> = {
+  'config-changed': true,
+  'system-suspend': true,
+  'system-resume': true,
+  'use-case-reloaded': true,
+  'detached-windows-changed': true,
+  'window-docked': true,
+  'user-topics-changed': true,
 };
 
+// Opens a stream channel: the main process receives one end of a MessageChannel
+// and posts chunks on it, the renderer pulls them through an iterator
+function openStream<T>(channel: string, args: unknown[]): IpcStreamIterator<T> {
+  const { port1, port2 } = new MessageChannel();
+  const queue: IpcStreamMessage<T>[] = [];
+  const waiters: ((message: IpcStreamMessage<T>) => void)[] = [];
+  let done = false;
+
+  port1.onmessage = (event: MessageEvent<IpcStreamMessage<T>>) => {
+    const waiter = waiters.shift();
+    if (waiter) {
+      waiter(event.data);
+    } else {
+      queue.push(event.data);
+    }
+  };
+
+  ipcRenderer.postMessage(channel, args, [port2]);
+
+  const nextMessage = (): Promise<IpcStreamMessage<T>> => {
+    const queued = queue.shift();
+    return queued ? Promise.resolve(queued) : new Promise((resolve) => waiters.push(resolve));
+  };
+
+  return {
+    next: async () => {
+      if (done) return { done: true, value: undefined };
+
+      const message = await nextMessage();
+      if (message.type === 'chunk') {
+        return { done: false, value: message.data };
+      }
+
+      done = true;
+      port1.close();
+      if (message.type === 'error') {
+        throw new Error(message.error);
+      }
+      return { done: true, value: undefined };
+    },
+    return: async () => {
+      if (!done) {
+        done = true;
+        const cancel: IpcStreamControl = { type: 'cancel' };
+        port1.postMessage(cancel);
+        port1.close();
+      }
+      return { done: true, value: undefined };
+    },
+  };
+}
+
 // Expose protected methods that allow the renderer process to use
-// the ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('electronAPI', {
-  // Example API methods can be added here
-} as ElectronAPI);
+// the ipcRenderer without exposing the entire object.
+// Only type imports are allowed here: the preload may run sandboxed.
+const electronAPI: ElectronAPI = {
+  invoke: (channel, meta, ...args) => {
+    const envelope: IpcInvokeEnvelope = { meta, args };
+    return ipcRenderer.invoke(channel, envelope);
+  },
+  stream: (channel, ...args) => openStream(channel, args),
+  subscribe: (channel, handler) => {
+    if (!Object.prototype.hasOwnProperty.call(allowedEventChannels, channel)) {
+      throw new Error(`Event channel '${channel}' is not allowed`);
+    }
+
+    const listener = (_event: IpcRendererEvent, payload: Parameters<typeof handler>[0]) =>
+      handler(payload);
+    ipcRenderer.on(channel, listener);
+    return () => {
+      ipcRenderer.removeListener(channel, listener);
+    };
+  },
+};
 
+contextBridge.exposeInMainWorld('electronAPI', electronAPI);
@@ -44,7 +44,8 @@ export default (env: any, argv: RspackConfigArgs) => {
       clean: true,
     },
     resolve: {
-      extensions: ['.js', '.jsx', '.ts', '.tsx'],
+      // Sources first, so that stray compiled .js next to a .ts is never bundled
+      extensions: ['.ts', '.tsx', '.js', '.jsx'],
       alias: {
         '@': path.resolve(__dirname, 'src'),
       },
@@ -96,6 +97,12 @@ export default (env: any, argv: RspackConfigArgs) => {
           ],
           exclude: /node_modules/,
         },
+        {
+          // Use-case topics, compiled with the same code as in the main process
+          test: /\.md$/,
+          use: [{ loader: path.resolve(__dirname, 'scripts/markdown-loader.ts') }],
+          type: 'javascript/auto',
+        },
         {
           test: /\.css$/,
           use: [
@@ -40,7 +40,7 @@ const config: RspackConfig = {
       '@/main': path.resolve(__dirname, 'src/main'),
       '@/renderer': path.resolve(__dirname, 'src/renderer'),
     },
-    extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.json'],
   },
   module: {
     rules: [
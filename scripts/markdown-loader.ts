@@ -0,0 +1,7 @@
+// Rspack loader compiling use-case topics (Markdown with front-matter) into modules
+import type { LoaderContext } from '@rspack/core';
+import { compileTopic } from '../src/shared/markdown';
+
+export default function markdownLoader(this: LoaderContext, source: string): string {
+  return `export default ${JSON.stringify(compileTopic(source, this.resourcePath))};`;
+}
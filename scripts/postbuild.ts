@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const rootDir = path.join(__dirname, '..');
+const outDir = path.join(rootDir, 'dist-ts');
+
+// main.cjs starts the compiled main process in dist-ts, which requires its
+// modules from there; nothing is copied back into src/
+function writeMainEntry(): void {
+  const entry = "// Generated by scripts/postbuild.ts\nrequire('./dist-ts/main.js');\n";
+  fs.writeFileSync(path.join(rootDir, 'main.cjs'), entry);
+  console.log('Wrote main.cjs');
+}
+
+// The preload is self-contained, so it is used from the app root
+function copyPreload(): void {
+  fs.copyFileSync(path.join(outDir, 'preload.js'), path.join(rootDir, 'preload.js'));
+  console.log('Copied preload.js');
+}
+
+// tsc only emits JavaScript: the compiled manifests also need their topic.md
+function copyTopics(): void {
+  const useCasesDir = path.join(rootDir, 'src', 'use-cases');
+
+  fs.readdirSync(useCasesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .forEach((entry) => {
+      const sourcePath = path.join(useCasesDir, entry.name, 'topic.md');
+      if (!fs.existsSync(sourcePath)) return;
+
+      const destPath = path.join(outDir, 'src', 'use-cases', entry.name, 'topic.md');
+      fs.mkdirSync(path.dirname(destPath), { recursive: true });
+      fs.copyFileSync(sourcePath, destPath);
+      console.log(`Copied ${path.relative(rootDir, sourcePath)}`);
+    });
+}
+
+writeMainEntry();
+copyPreload();
+copyTopics();
@@ -1,76 +1,108 @@
 import clsx from 'clsx';
 import type React from 'react';
 import { Component } from 'react';
+import CategoryFilter from './frontend/components/CategoryFilter';
+import CommandPalette from './frontend/components/CommandPalette';
 import LeftSidebar from './frontend/components/LeftSidebar';
 import {
   AppContainer,
   MainContent,
   Header,
   HeaderContent,
+  HeaderButton,
   HeaderTitle,
   HeaderSubtitle,
   MainArea,
   SearchContainer,
   SearchInput,
-  TabFilter,
-  TabButton,
   CardsList,
   Card,
   CardContent,
   CardTitle,
   CardTag,
   CardArrow,
+  CardExcerpt,
   NoResults,
   Footer,
   SidebarToggle,
   SidebarBackdrop,
 } from './frontend/styles/redesigned-styles';
-import {
-  createElectronArchitectureWindow,
-  createElectronDevelopmentWindow,
-  createElectronIntroWindow,
-  createElectronNativeApisWindow,
-  createElectronPackagingWindow,
-  createElectronPerformanceWindow,
-  createElectronSecurityWindow,
-  createElectronVersionsWindow,
-} from './frontend/use-cases';
-import { menuData } from './shared/menu-data';
-
-const categories = [
-  { id: 'all', label: 'All' },
-  { id: 'framework', label: 'Framework' },
-  { id: 'architecture', label: 'Architecture' },
-  { id: 'security', label: 'Security' },
-  { id: 'packaging', label: 'Packaging' },
-  { id: 'api', label: 'APIs' },
-  { id: 'performance', label: 'Performance' },
-  { id: 'development', label: 'Dev' },
-  { id: 'maintenance', label: 'Maintenance' },
-];
+import { type CardFilters, CategoryUtils } from './frontend/lib/categories/categories';
+import { DetachedWindowUtils } from './frontend/lib/detached-windows/detached-windows';
+import { type MenuItem, menuData, menuSearchIndex } from './frontend/lib/menu-data';
+import { UseCaseUtils } from './frontend/lib/use-cases/use-cases';
+import { UserTopicUtils } from './frontend/lib/user-topics/user-topics';
+import { type SearchRange, SearchUtils } from './frontend/lib/search/search';
+import { WorkspaceUtils } from './frontend/lib/workspace/workspace';
+import { createTopicEditorWindow, openTopicWindow } from './frontend/utils/topic-windows';
+import { api } from './shared/api';
+import type { UserTopic } from './shared/ipc-channels';
+
+// Card of the list, with the ranges of its title that matched the search
+interface FilteredCard {
+  card: MenuItem;
+  titleRanges?: SearchRange[];
+}
 
 class App extends Component {
   state = {
     searchTerm: '',
-    activeTab: 'all',
+    // Category tab and tags, also in the URL hash so that a filtered view can be bookmarked
+    filters: CategoryUtils.parseHash(window.location.hash),
     sidebarOpen: true,
+    // Bumped when the search index changes, so that results are searched again
+    searchVersion: 0,
+    // Cards of the topics written by the user, after the use cases
+    userItems: [] as MenuItem[],
   };
 
-  windowCreators: { [key: string]: any } = {
-    'What is Electron?': createElectronIntroWindow,
-    'Electron Architecture': createElectronArchitectureWindow,
-    'Electron Security Best Practices': createElectronSecurityWindow,
-    'Packaging and Distribution': createElectronPackagingWindow,
-    'Native Operating System APIs': createElectronNativeApisWindow,
-    'Performance Optimization': createElectronPerformanceWindow,
-    'Development Workflow': createElectronDevelopmentWindow,
-    'Version Management': createElectronVersionsWindow,
-  };
+  unsubscribeUseCaseReloaded: (() => void) | null = null;
+  unsubscribeUserTopics: (() => void) | null = null;
+  stopWorkspaceAutoSave: (() => void) | null = null;
+  stopDocking: (() => void) | null = null;
+  mounted = false;
+
+  componentDidMount() {
+    this.mounted = true;
+    // Restore the saved workspace first, so that opening it is not saved over itself
+    WorkspaceUtils.restore()
+      .catch((error) => console.error('Error restoring workspace:', error))
+      .finally(() => {
+        if (this.mounted && !this.stopWorkspaceAutoSave) {
+          this.stopWorkspaceAutoSave = WorkspaceUtils.startAutoSave();
+        }
+      });
+
+    // Dev builds hot-reload use-case handlers in the main process, which serve the content
+    this.unsubscribeUseCaseReloaded = api.subscribe('use-case-reloaded', ({ id }) => {
+      console.info(`[App] Use case '${id}' handlers reloaded`);
+      this.reindexCard(id);
+    });
+
+    this.unsubscribeUserTopics = UserTopicUtils.subscribe(this.updateUserTopics);
+    UserTopicUtils.load().catch((error) => console.error('Error loading topics:', error));
+
+    // Popped-out windows come back as WinBox windows when docked
+    this.stopDocking = DetachedWindowUtils.startDocking();
+
+    window.addEventListener('hashchange', this.handleHashChange);
+  }
+
+  componentWillUnmount() {
+    this.mounted = false;
+    this.unsubscribeUseCaseReloaded?.();
+    this.unsubscribeUserTopics?.();
+    this.stopDocking?.();
+    window.removeEventListener('hashchange', this.handleHashChange);
+    this.stopWorkspaceAutoSave?.();
+    this.stopWorkspaceAutoSave = null;
+  }
 
-  handleCardClick = async (card: any) => {
-    const creator = this.windowCreators[card.title] || createElectronIntroWindow;
+  // Ctrl/Cmd+click opens another instance instead of focusing the open window
+  handleCardClick = async (card: MenuItem, e?: React.MouseEvent | React.KeyboardEvent) => {
+    const newInstance = Boolean(e && (e.ctrlKey || e.metaKey));
     try {
-      await creator({ title: card.title, content: card.content });
+      await openTopicWindow(card.id, newInstance);
     } catch (error) {
       console.error('Error creating window:', error);
     }
@@ -80,30 +112,63 @@ class App extends Component {
     this.setState({ searchTerm: e.target.value });
   };
 
-  handleTab = (tabId: string) => {
-    this.setState({ activeTab: tabId });
+  // Replaces the hash instead of adding history entries, which back would step through
+  handleFilters = (filters: CardFilters) => {
+    this.setState({ filters });
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', CategoryUtils.formatHash(filters) || pathname + search);
+  };
+
+  // A bookmark or a link with other filters, opened in this window
+  handleHashChange = () => {
+    this.setState({ filters: CategoryUtils.parseHash(window.location.hash) });
   };
 
   toggleSidebar = () => {
     this.setState({ sidebarOpen: !this.state.sidebarOpen });
   };
 
-  getFilteredCards = () => {
-    const { searchTerm, activeTab } = this.state;
-    const term = searchTerm.toLowerCase().trim();
-
-    return menuData.filter((card) => {
-      const matchesSearch =
-        !term ||
-        card.title.toLowerCase().includes(term) ||
-        card.category.toLowerCase().includes(term);
-      const matchesTab = activeTab === 'all' || card.category === activeTab;
-      return matchesSearch && matchesTab;
-    });
+  reindexCard = async (id: string) => {
+    const card = menuData.find((item) => item.id === id);
+    if (!card) return;
+
+    const content = await UseCaseUtils.fetchContent(id, card.content);
+    menuSearchIndex.update({ ...card, content });
+    if (this.mounted) {
+      this.setState({ searchVersion: this.state.searchVersion + 1 });
+    }
+  };
+
+  // Keeps the user topics in the card list and the search index
+  updateUserTopics = (topics: UserTopic[]) => {
+    const userItems = topics.map(UserTopicUtils.toMenuItem);
+    this.state.userItems
+      .filter((item) => !userItems.some((next) => next.id === item.id))
+      .forEach((item) => menuSearchIndex.remove(item.id));
+    userItems.forEach((item) => menuSearchIndex.update(item));
+
+    if (this.mounted) {
+      this.setState({ userItems, searchVersion: this.state.searchVersion + 1 });
+    }
+  };
+
+  // Without a search term the cards keep their order; otherwise they are ranked
+  getSearchedCards = (): FilteredCard[] => {
+    const { searchTerm } = this.state;
+    if (!searchTerm.trim()) {
+      return [...menuData, ...this.state.userItems].map((card) => ({ card }));
+    }
+    return menuSearchIndex
+      .search(searchTerm)
+      .map((result) => ({ card: result.item, titleRanges: result.matches.title }));
   };
 
   render() {
-    const filteredCards = this.getFilteredCards();
+    const items = [...menuData, ...this.state.userItems];
+    // Resolved on every render, since user topics and their categories load later
+    const filters = CategoryUtils.resolveFilters(this.state.filters, items);
+    const searchedCards = this.getSearchedCards();
+    const filteredCards = searchedCards.filter(({ card }) => CategoryUtils.matches(card, filters));
 
     return (
       <AppContainer
@@ -113,6 +178,7 @@ class App extends Component {
         })}
       >
         <LeftSidebar isOpen={this.state.sidebarOpen} />
+        <CommandPalette />
 
         {/* Mobile sidebar backdrop */}
         <SidebarBackdrop
@@ -129,6 +195,9 @@ class App extends Component {
               <HeaderTitle>Electron Starter</HeaderTitle>
               <HeaderSubtitle>Rspack + React + Electron</HeaderSubtitle>
             </HeaderContent>
+            {api.isAvailable() && (
+              <HeaderButton onClick={() => createTopicEditorWindow()}>New topic</HeaderButton>
+            )}
           </Header>
 
           <MainArea>
@@ -142,32 +211,35 @@ class App extends Component {
               />
             </SearchContainer>
 
-            <TabFilter role="tablist" aria-label="Feature categories">
-              {categories.map((cat) => (
-                <TabButton
-                  key={cat.id}
-                  isActive={this.state.activeTab === cat.id}
-                  onClick={() => this.handleTab(cat.id)}
-                  role="tab"
-                  aria-selected={this.state.activeTab === cat.id}
-                >
-                  {cat.label}
-                </TabButton>
-              ))}
-            </TabFilter>
+            <CategoryFilter
+              items={items}
+              matchingItems={searchedCards.map(({ card }) => card)}
+              filters={filters}
+              onChange={this.handleFilters}
+            />
 
             <CardsList role="list">
               {filteredCards.length > 0 ? (
-                filteredCards.map((card) => (
+                filteredCards.map(({ card, titleRanges }) => (
                   <Card
                     key={card.id}
-                    onClick={() => this.handleCardClick(card)}
+                    onClick={(e) => this.handleCardClick(card, e)}
+                    title="Ctrl+click to open another window"
                     role="listitem"
                     tabIndex={0}
-                    onKeyDown={(e) => e.key === 'Enter' && this.handleCardClick(card)}
+                    onKeyDown={(e) => e.key === 'Enter' && this.handleCardClick(card, e)}
                   >
                     <CardContent>
-                      <CardTitle>{card.title}</CardTitle>
+                      <CardTitle>
+                        {SearchUtils.highlight(card.title, titleRanges).map((segment) =>
+                          segment.isMatch ? (
+                            <mark key={segment.start}>{segment.text}</mark>
+                          ) : (
+                            segment.text
+                          )
+                        )}
+                      </CardTitle>
+                      <CardExcerpt>{card.excerpt}</CardExcerpt>
                       <CardTag>{card.category}</CardTag>
                     </CardContent>
                     <CardArrow className="card-arrow">→</CardArrow>
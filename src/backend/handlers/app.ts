@@ -0,0 +1,42 @@
+// Backend handlers for application-level functionality (window title, system info, dialogs, use-case info, links)
+import { BrowserWindow, dialog, shell } from 'electron';
+import { IpcUtils } from '../lib/ipc/ipc';
+import { SystemUtils } from '../lib/system/system';
+import { UseCaseUtils } from '../lib/use-cases/use-cases';
+
+const registerAppHandlers = (): void => {
+  IpcUtils.registerHandler('set-title', (event, title) => {
+    BrowserWindow.fromWebContents(event.sender)?.setTitle(title);
+  });
+
+  IpcUtils.registerHandler('get-system-info', () => SystemUtils.getSystemInfo());
+
+  IpcUtils.registerHandler('get-ipc-diagnostics', () => IpcUtils.getDiagnostics());
+
+  IpcUtils.registerHandler('get-ipc-trace', () => IpcUtils.exportTrace());
+
+  IpcUtils.registerHandler('get-use-case-info', (_event, id) => UseCaseUtils.getInfo(id));
+
+  // Only http(s) URLs pass the channel schema
+  IpcUtils.registerHandler('open-external', async (_event, url) => {
+    await shell.openExternal(url);
+  });
+
+  IpcUtils.registerHandler('show-open-dialog', async (event, options) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    return result.canceled ? [] : result.filePaths;
+  });
+
+  IpcUtils.registerHandler('show-save-dialog', async (event, options) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    return result.canceled || !result.filePath ? null : result.filePath;
+  });
+};
+
+export { registerAppHandlers };
@@ -0,0 +1,34 @@
+// Backend streaming handlers for long-running file and network operations
+import { FileUtils } from '../lib/filesystem/files';
+import { IpcUtils } from '../lib/ipc/ipc';
+import { NetworkUtils } from '../lib/network/network';
+import { SystemUtils } from '../lib/system/system';
+
+const registerFileHandlers = (): void => {
+  // Downloads into the app data directory, reporting progress until done or cancelled
+  IpcUtils.registerStreamHandler('download-file', async ({ emit, signal }, url, fileName) => {
+    const downloadsDir = SystemUtils.getAppDataPath('downloads');
+    const destPath = FileUtils.createSafePath(downloadsDir, fileName);
+    if (!destPath) {
+      throw new Error(`Invalid file name: ${fileName}`);
+    }
+
+    FileUtils.ensureDirectory(downloadsDir);
+    await NetworkUtils.downloadFile(url, destPath, {
+      signal,
+      onProgress: (receivedBytes, totalBytes) => emit({ receivedBytes, totalBytes }),
+    });
+  });
+
+  // Lists a directory in batches so large folders render progressively
+  IpcUtils.registerStreamHandler('list-files', async ({ emit, signal }, dirPath) => {
+    const validation = FileUtils.validatePath(dirPath);
+    if (!validation.isSafe) {
+      throw new Error(validation.error || `Invalid path: ${dirPath}`);
+    }
+
+    await FileUtils.listFilesInBatches(validation.normalizedPath, emit, { signal });
+  });
+};
+
+export { registerFileHandlers };
@@ -0,0 +1,70 @@
+// Backend handlers for user settings stored in the main-process config
+import type { CategoryPreferences } from '../../shared/ipc-channels';
+import {
+  type ShortcutAction,
+  type ShortcutBindings,
+  defaultShortcuts,
+  parseShortcut,
+} from '../../shared/shortcuts';
+import { ConfigUtils } from '../lib/config/config';
+import { IpcUtils } from '../lib/ipc/ipc';
+
+interface SettingsConfig {
+  shortcuts?: Partial<ShortcutBindings>;
+  categories?: CategoryPreferences;
+}
+
+const loadShortcuts = (): ShortcutBindings => {
+  const { shortcuts } = ConfigUtils.loadConfig<SettingsConfig>({});
+  return { ...defaultShortcuts, ...shortcuts };
+};
+
+const saveShortcuts = (shortcuts: Partial<ShortcutBindings>): ShortcutBindings => {
+  if (!ConfigUtils.updateConfig<SettingsConfig>({ shortcuts })) {
+    throw new Error('Failed to save shortcuts');
+  }
+  return loadShortcuts();
+};
+
+const loadCategoryPreferences = (): CategoryPreferences => {
+  const { categories } = ConfigUtils.loadConfig<SettingsConfig>({});
+  return { order: categories?.order ?? [], hidden: categories?.hidden ?? [] };
+};
+
+const registerSettingsHandlers = (): void => {
+  IpcUtils.registerHandler('get-shortcuts', () => loadShortcuts());
+
+  // Only bindings that differ from the defaults are stored
+  IpcUtils.registerHandler('set-shortcuts', (_event, bindings) => {
+    const shortcuts = { ...loadShortcuts() };
+    for (const action of Object.keys(defaultShortcuts) as ShortcutAction[]) {
+      const shortcut = bindings[action];
+      if (shortcut === undefined) continue;
+      if (!parseShortcut(shortcut)) {
+        throw new Error(`Invalid shortcut for ${action}: ${shortcut}`);
+      }
+      shortcuts[action] = shortcut;
+    }
+
+    const changed = (Object.keys(shortcuts) as ShortcutAction[]).filter(
+      (action) => shortcuts[action] !== defaultShortcuts[action]
+    );
+    return saveShortcuts(Object.fromEntries(changed.map((action) => [action, shortcuts[action]])));
+  });
+
+  IpcUtils.registerHandler('reset-shortcuts', () => saveShortcuts({}));
+
+  IpcUtils.registerHandler('get-category-preferences', () => loadCategoryPreferences());
+
+  // Categories are kept even while no topic has them, so that a hidden one stays hidden
+  IpcUtils.registerHandler('set-category-preferences', (_event, { order, hidden }) => {
+    const unique = (ids: string[]) => [...new Set(ids.map((id) => id.trim()).filter(Boolean))];
+    const categories = { order: unique(order), hidden: unique(hidden) };
+    if (!ConfigUtils.updateConfig<SettingsConfig>({ categories })) {
+      throw new Error('Failed to save category preferences');
+    }
+    return loadCategoryPreferences();
+  });
+};
+
+export { registerSettingsHandlers };
@@ -0,0 +1,19 @@
+// Backend handlers for topics written by the user, stored as Markdown files in the app data
+import { IpcUtils } from '../lib/ipc/ipc';
+import { TopicUtils } from '../lib/topics/topics';
+
+const registerTopicHandlers = (): void => {
+  IpcUtils.registerHandler('list-user-topics', () => TopicUtils.listTopics());
+
+  IpcUtils.registerHandler('get-user-topic', (_event, id) => TopicUtils.getTopic(id));
+
+  IpcUtils.registerHandler('create-user-topic', (_event, topic) => TopicUtils.createTopic(topic));
+
+  IpcUtils.registerHandler('update-user-topic', (_event, id, topic) =>
+    TopicUtils.updateTopic(id, topic)
+  );
+
+  IpcUtils.registerHandler('delete-user-topic', (_event, id) => TopicUtils.deleteTopic(id));
+};
+
+export { registerTopicHandlers };
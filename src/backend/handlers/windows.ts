@@ -0,0 +1,23 @@
+// Backend handlers moving use-case windows between the WinBox desktop and native windows
+import { IpcUtils } from '../lib/ipc/ipc';
+import { WindowUtils } from '../lib/windows/windows';
+
+const registerWindowHandlers = (): void => {
+  IpcUtils.registerHandler('detach-window', (_event, useCaseId, title) =>
+    WindowUtils.detach(useCaseId, title)
+  );
+
+  // Either window may dock: the main window reopens the use case as a WinBox
+  IpcUtils.registerHandler('dock-window', (_event, id) => {
+    const info = WindowUtils.dock(id);
+    if (info) {
+      IpcUtils.broadcastMessage('window-docked', { useCaseId: info.useCaseId, title: info.title });
+    }
+  });
+
+  IpcUtils.registerHandler('focus-detached-window', (_event, id) => WindowUtils.focus(id));
+
+  IpcUtils.registerHandler('get-detached-windows', () => WindowUtils.getDetachedWindows());
+};
+
+export { registerWindowHandlers };
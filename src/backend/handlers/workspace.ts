@@ -0,0 +1,160 @@
+// Backend handlers persisting named WinBox workspaces in the main-process config
+import * as crypto from 'crypto';
+import { BrowserWindow, dialog } from 'electron';
+import type {
+  Workspace,
+  WorkspaceExport,
+  WorkspaceSnapshot,
+  WorkspaceState,
+} from '../../shared/ipc-channels';
+import { ConfigUtils } from '../lib/config/config';
+import { FileUtils } from '../lib/filesystem/files';
+import { IpcUtils } from '../lib/ipc/ipc';
+import { workspaceSnapshot } from '../lib/ipc/schemas';
+import { ValidationUtils } from '../lib/validation/validation';
+
+interface WorkspaceConfig {
+  // Older configs hold a single snapshot instead of named workspaces
+  workspace?: Partial<WorkspaceState> & { snapshot?: WorkspaceSnapshot | null };
+}
+
+const { isString, arrayOf, shape } = ValidationUtils;
+
+const isWorkspaceExport = shape({
+  workspaces: arrayOf(shape({ name: isString, snapshot: workspaceSnapshot })),
+});
+
+const jsonFilters = [{ name: 'Workspaces', extensions: ['json'] }];
+
+const emptySnapshot = (): WorkspaceSnapshot => ({ viewport: { width: 0, height: 0 }, windows: [] });
+
+const createWorkspace = (
+  name: string,
+  snapshot: WorkspaceSnapshot = emptySnapshot()
+): Workspace => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'Untitled',
+  snapshot,
+});
+
+const loadWorkspaces = (): WorkspaceState => {
+  const { workspace = {} } = ConfigUtils.loadConfig<WorkspaceConfig>({});
+  const { snapshot, ...saved } = workspace;
+
+  // Stable id, so the first workspace is the same one until something is saved
+  const workspaces = saved.workspaces?.length
+    ? saved.workspaces
+    : [{ id: 'default', name: 'Default', snapshot: snapshot ?? emptySnapshot() }];
+  const activeId = workspaces.some((item) => item.id === saved.activeId)
+    ? (saved.activeId as string)
+    : workspaces[0].id;
+
+  return { restoreOnLaunch: saved.restoreOnLaunch ?? true, activeId, workspaces };
+};
+
+const updateWorkspaces = (update: (state: WorkspaceState) => void): WorkspaceState => {
+  const state = loadWorkspaces();
+  update(state);
+  if (!ConfigUtils.updateConfig<WorkspaceConfig>({ workspace: state })) {
+    throw new Error('Failed to save workspaces');
+  }
+  return state;
+};
+
+const findWorkspace = (state: WorkspaceState, id: string): Workspace => {
+  const workspace = state.workspaces.find((item) => item.id === id);
+  if (!workspace) {
+    throw new Error(`Unknown workspace: ${id}`);
+  }
+  return workspace;
+};
+
+const registerWorkspaceHandlers = (): void => {
+  IpcUtils.registerHandler('get-workspaces', () => loadWorkspaces());
+
+  IpcUtils.registerHandler('save-workspace', (_event, id, snapshot) => {
+    updateWorkspaces((state) => {
+      findWorkspace(state, id).snapshot = snapshot;
+    });
+  });
+
+  IpcUtils.registerHandler('create-workspace', (_event, name) => {
+    const workspace = createWorkspace(name);
+    updateWorkspaces((state) => {
+      state.workspaces.push(workspace);
+    });
+    return workspace;
+  });
+
+  IpcUtils.registerHandler('rename-workspace', (_event, id, name) => {
+    updateWorkspaces((state) => {
+      findWorkspace(state, id).name = name.trim() || 'Untitled';
+    });
+  });
+
+  IpcUtils.registerHandler('delete-workspace', (_event, id) => {
+    updateWorkspaces((state) => {
+      findWorkspace(state, id);
+      if (state.workspaces.length === 1) {
+        throw new Error('The last workspace cannot be deleted');
+      }
+      state.workspaces = state.workspaces.filter((item) => item.id !== id);
+      if (state.activeId === id) {
+        state.activeId = state.workspaces[0].id;
+      }
+    });
+  });
+
+  IpcUtils.registerHandler('set-active-workspace', (_event, id) => {
+    updateWorkspaces((state) => {
+      state.activeId = findWorkspace(state, id).id;
+    });
+  });
+
+  IpcUtils.registerHandler('set-workspace-restore', (_event, enabled) => {
+    updateWorkspaces((state) => {
+      state.restoreOnLaunch = enabled;
+    });
+  });
+
+  IpcUtils.registerHandler('export-workspaces', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options = { defaultPath: 'workspaces.json', filters: jsonFilters };
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) return null;
+
+    const data: WorkspaceExport = { version: 1, workspaces: loadWorkspaces().workspaces };
+    if (!FileUtils.writeJsonFile(result.filePath, data)) {
+      throw new Error(`Failed to write ${result.filePath}`);
+    }
+    return result.filePath;
+  });
+
+  // Imported workspaces are added next to the existing ones under new ids
+  IpcUtils.registerHandler('import-workspaces', async (event) => {
+    const window = BrowserWindow.fromWebContents(event.sender);
+    const options = { filters: jsonFilters, properties: ['openFile' as const] };
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) return [];
+
+    const [filePath] = result.filePaths;
+    const data = FileUtils.readJsonFile<unknown>(filePath, null);
+    if (!isWorkspaceExport(data)) {
+      throw new Error(`Not a workspace file: ${filePath}`);
+    }
+
+    const imported = (data as WorkspaceExport).workspaces.map((item) =>
+      createWorkspace(item.name, item.snapshot)
+    );
+    updateWorkspaces((state) => {
+      state.workspaces.push(...imported);
+    });
+    return imported;
+  });
+};
+
+export { isWorkspaceExport, registerWorkspaceHandlers };
@@ -23,6 +23,10 @@ export interface SystemInfo {
   uptime: number;
 }
 
+export interface LogContext {
+  correlationId: string;
+}
+
 export interface PathValidationResult {
   isValid: boolean;
   isSafe: boolean;
@@ -32,4 +36,30 @@ export interface PathValidationResult {
 
 export interface StorageOptions {
   ttl?: number; // Time to live in milliseconds
-}
\ No newline at end of file
+}
+
+export interface SecurityConfig {
+  hardening: {
+    enableContextIsolation: boolean;
+    disableNodeIntegration: boolean;
+    enableSandbox: boolean;
+    validateInputs: boolean;
+    sanitizeOutputs: boolean;
+  };
+  rateLimiting: {
+    enabled: boolean;
+    maxRequests: number;
+    windowMs: number;
+  };
+  logging: {
+    securityEvents: boolean;
+    piiMasking: boolean;
+    retentionDays: number;
+  };
+}
+
+export interface SecurityEvent {
+  type: 'ipc-unauthorized-sender' | 'ipc-throttled';
+  timestamp: string;
+  details: Record<string, unknown>;
+}
@@ -10,6 +10,29 @@ import { SystemUtils } from '../system/system';
 export namespace ConfigUtils {
   const configPath = path.join(app.getPath('userData'), 'config.json');
   const logger = SystemUtils.createLogger('ConfigUtils');
+  const changeListeners: Set<(keys: string[]) => void> = new Set();
+
+  /**
+   * Subscribes to configuration changes
+   * @param listener - Called with the top-level keys whose value changed, after each
+   * successful save that changed any
+   * @returns Function that removes the listener
+   */
+  export function onChange(listener: (keys: string[]) => void): () => void {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  }
+
+  // Top-level keys added, removed or given another value; values are compared as JSON
+  function getChangedKeys(
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>
+  ): string[] {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    return [...keys].filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+  }
 
   /**
    * Loads configuration from file
@@ -40,9 +63,14 @@ export namespace ConfigUtils {
    */
   export function saveConfig<T>(config: T): boolean {
     try {
+      const previous = FileUtils.readJsonFile<Record<string, unknown>>(configPath, {});
       const success = FileUtils.writeJsonFile(configPath, config);
       if (success) {
         logger.info('Configuration saved successfully');
+        const keys = getChangedKeys(previous, config as Record<string, unknown>);
+        if (keys.length > 0) {
+          changeListeners.forEach((listener) => listener(keys));
+        }
       } else {
         logger.error('Failed to save configuration');
       }
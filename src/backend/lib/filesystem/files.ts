@@ -169,6 +169,41 @@ export namespace FileUtils {
     }
   }
 
+  /**
+   * Lists files in a directory in batches, without reading the whole directory at once
+   * @param dirPath - Directory path to scan
+   * @param onBatch - Called with each batch of file information objects
+   * @param options - Batch size and optional abort signal
+   * @returns Promise that resolves when the directory has been listed or the signal aborted
+   */
+  export async function listFilesInBatches(
+    dirPath: string,
+    onBatch: (files: FileInfo[]) => void,
+    options: { batchSize?: number; signal?: AbortSignal } = {}
+  ): Promise<void> {
+    const batchSize = options.batchSize || 100;
+    const dir = await fs.promises.opendir(dirPath);
+    let batch: FileInfo[] = [];
+
+    for await (const entry of dir) {
+      if (options.signal?.aborted) break;
+
+      const info = getFileInfo(path.join(dirPath, entry.name));
+      if (info) batch.push(info);
+
+      if (batch.length >= batchSize) {
+        onBatch(batch);
+        batch = [];
+        // Yield so cancel messages can be processed between batches
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+
+    if (batch.length > 0 && !options.signal?.aborted) {
+      onBatch(batch);
+    }
+  }
+
   /**
    * Copies a file from source to destination
    * @param srcPath - Source file path
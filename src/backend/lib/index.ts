@@ -5,6 +5,10 @@ export { IpcUtils } from './ipc/ipc';
 export { ConfigUtils } from './config/config';
 export { NetworkUtils } from './network/network';
 export { SecurityUtils } from './security/security';
+export { ValidationUtils } from './validation/validation';
+export { UseCaseUtils } from './use-cases/use-cases';
+export { TopicUtils } from './topics/topics';
+export { WindowUtils } from './windows/windows';
 
 // Export types
 export * from './common/types';
\ No newline at end of file
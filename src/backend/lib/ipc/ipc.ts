@@ -1,50 +1,429 @@
 import { ipcMain, BrowserWindow, IpcMainInvokeEvent, IpcMainEvent } from 'electron';
+import type {
+  IpcChannel,
+  IpcDiagnostics,
+  IpcEventChannel,
+  IpcEventPayload,
+  IpcInvokeEnvelope,
+  IpcRequest,
+  IpcResponse,
+  IpcStreamChannel,
+  IpcStreamChunk,
+  IpcStreamControl,
+  IpcStreamMessage,
+  IpcStreamRequest,
+  IpcTraceExport,
+} from '../../../shared/ipc-channels';
+import { createIpcError, IpcError, type IpcErrorInfo } from '../../../shared/ipc-errors';
+import { SecurityUtils } from '../security/security';
 import { SystemUtils } from '../system/system';
+import { ValidationUtils } from '../validation/validation';
+import { defaultChannelPolicy, ipcPolicies } from './policies';
+import { type RateLimit, RateLimiter } from './rate-limiter';
+import { ipcSchemas, ipcStreamSchemas } from './schemas';
+import { TraceRecorder } from './trace';
 
 /**
  * IPC (Inter-Process Communication) utilities
  */
 export namespace IpcUtils {
+  const logger = SystemUtils.createLogger('IpcUtils');
+  let trustedOrigins: string[] = [];
+  const rateLimiter = new RateLimiter();
+  const senderRateLimits: Map<number, RateLimit | false> = new Map();
+  const tracer = new TraceRecorder();
+  const correlationIdPattern = /^[\w-]{1,64}$/;
+  // Latest registration of each invoke channel, so that a replaced handler is not removed
+  const registrations: Map<string, symbol> = new Map();
+
+  /**
+   * Handler signature for a channel declared in the shared IPC contract
+   */
+  export type Handler<C extends IpcChannel> = (
+    event: IpcMainInvokeEvent,
+    ...args: IpcRequest<C>
+  ) => Promise<IpcResponse<C>> | IpcResponse<C>;
+
+  /**
+   * Context passed to a stream handler
+   */
+  export interface StreamContext<T> {
+    event: IpcMainEvent;
+    // Aborted when the renderer cancels or closes the stream
+    signal: AbortSignal;
+    // Posts a chunk or progress event to the calling renderer
+    emit: (chunk: T) => void;
+  }
+
+  /**
+   * Handler signature for a streaming channel declared in the shared IPC contract.
+   * The stream ends when the returned promise settles.
+   */
+  export type StreamHandler<C extends IpcStreamChannel> = (
+    stream: StreamContext<IpcStreamChunk<C>>,
+    ...args: IpcStreamRequest<C>
+  ) => Promise<void> | void;
+
+  /**
+   * Sets the URLs the app itself is served from (dev server or packaged index.html).
+   * Channels without an explicit origin list accept calls from these URLs only.
+   * @param origins - Trusted URLs
+   */
+  export function setTrustedOrigins(origins: string[]): void {
+    trustedOrigins = origins;
+  }
+
+  /**
+   * Checks a frame URL against a list of allowed URLs.
+   * http(s) entries match by origin, file entries match by exact path.
+   * @param url - URL of the calling frame
+   * @param allowed - Allowed URLs
+   * @returns True if the URL is allowed
+   */
+  export function isAllowedUrl(url: string, allowed: string[]): boolean {
+    try {
+      const parsed = new URL(url);
+      return allowed.some((entry) => {
+        const expected = new URL(entry);
+        if (expected.protocol === 'file:') {
+          return parsed.protocol === 'file:' && parsed.pathname === expected.pathname;
+        }
+        return parsed.origin === expected.origin;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks the calling frame against the channel policy
+   * @param channel - IPC channel name
+   * @param event - Invoke or stream event
+   * @returns Reason for rejection, or null if the sender is authorized
+   */
+  function checkSender(
+    channel: IpcChannel | IpcStreamChannel,
+    event: IpcMainInvokeEvent | IpcMainEvent
+  ): string | null {
+    const policy = { ...defaultChannelPolicy, ...ipcPolicies[channel] };
+    const frame = event.senderFrame;
+
+    if (!frame) {
+      return 'Sender frame is no longer available';
+    }
+    if (!policy.allowSubframes && frame.parent !== null) {
+      return 'Calls from subframes are not allowed';
+    }
+    if (!isAllowedUrl(frame.url, policy.origins || trustedOrigins)) {
+      return `Origin not allowed: ${frame.url}`;
+    }
+    return null;
+  }
+
+  /**
+   * Overrides the rate limit of every channel for one webContents
+   * @param webContentsId - webContents id of the renderer
+   * @param limit - Budget per channel, false to disable limiting, null to remove the override
+   */
+  export function setSenderRateLimit(webContentsId: number, limit: RateLimit | false | null): void {
+    if (limit === null) {
+      senderRateLimits.delete(webContentsId);
+    } else {
+      senderRateLimits.set(webContentsId, limit);
+    }
+  }
+
+  /**
+   * Resolves the rate limit of a call: sender override, then channel policy,
+   * then the rateLimiting defaults of security.config.json
+   * @param channel - IPC channel name
+   * @param senderId - webContents id of the caller
+   * @returns Budget, or null when the call is not limited
+   */
+  function resolveRateLimit(
+    channel: IpcChannel | IpcStreamChannel,
+    senderId: number
+  ): RateLimit | null {
+    const { rateLimiting } = SecurityUtils.getSecurityConfig();
+    if (!rateLimiting.enabled) return null;
+
+    const override = senderRateLimits.get(senderId);
+    const limit = override !== undefined ? override : ipcPolicies[channel]?.rateLimit;
+    if (limit === false) return null;
+    return limit || { maxRequests: rateLimiting.maxRequests, windowMs: rateLimiting.windowMs };
+  }
+
+  /**
+   * Gets rate limit counters for the diagnostics channel
+   * @returns Diagnostics snapshot
+   */
+  export function getDiagnostics(): IpcDiagnostics {
+    const { rateLimiting } = SecurityUtils.getSecurityConfig();
+    return {
+      rateLimiting: { ...rateLimiting },
+      counters: rateLimiter.getCounters(),
+    };
+  }
+
   /**
-   * Registers an IPC handler with error handling
+   * Authorizes a call before its handler runs: the sender frame is checked against
+   * the channel policy, the sender against its rate limit and the arguments against
+   * the channel schema
    * @param channel - IPC channel name
+   * @param schema - Argument validators of the channel
+   * @param event - Invoke or stream event
+   * @param args - Arguments received from the renderer
+   * @throws Structured IPC error when the call is rejected
+   */
+  function authorizeCall(
+    channel: IpcChannel | IpcStreamChannel,
+    schema: readonly ValidationUtils.Validator[],
+    event: IpcMainInvokeEvent | IpcMainEvent,
+    args: unknown[]
+  ): void {
+    const rejection = checkSender(channel, event);
+    if (rejection) {
+      SecurityUtils.recordSecurityEvent('ipc-unauthorized-sender', {
+        channel,
+        senderId: event.sender.id,
+        url: event.senderFrame?.url,
+        reason: rejection,
+      });
+      throw createIpcError({ code: 'UNAUTHORIZED_SENDER', channel, message: rejection });
+    }
+
+    const senderId = event.sender.id;
+    const limit = resolveRateLimit(channel, senderId);
+    if (limit) {
+      if (!rateLimiter.hasSender(senderId)) {
+        event.sender.once('destroyed', () => {
+          rateLimiter.clearSender(senderId);
+          senderRateLimits.delete(senderId);
+        });
+      }
+
+      const result = rateLimiter.consume(senderId, channel, limit);
+      if (!result.allowed) {
+        // Record once per burst so a runaway loop does not flood the security log
+        if (result.firstThrottled) {
+          SecurityUtils.recordSecurityEvent('ipc-throttled', { channel, senderId, ...limit });
+        }
+        throw createIpcError({
+          code: 'THROTTLED',
+          channel,
+          message: 'Too many requests',
+          retryAfterMs: result.retryAfterMs,
+        });
+      }
+    }
+
+    if (!SecurityUtils.getSecurityConfig().hardening.validateInputs) return;
+
+    const validation = ValidationUtils.validateArgs(args, schema);
+    if (!validation.isValid) {
+      logger.warn(
+        `Rejected invalid arguments on channel '${channel}' from sender ${event.sender.id}`,
+        validation.errors
+      );
+      throw createIpcError({
+        code: 'INVALID_ARGUMENTS',
+        channel,
+        message: 'Invalid arguments',
+        details: validation.errors,
+      });
+    }
+  }
+
+  /**
+   * Unwraps the envelope sent by preload.ts
+   * @param envelope - Raw invoke payload
+   * @returns Call metadata and arguments, or null when the envelope is malformed
+   */
+  function unwrapEnvelope(envelope: unknown): IpcInvokeEnvelope | null {
+    if (!ValidationUtils.isPlainObject(envelope) || !Array.isArray(envelope.args)) return null;
+
+    const meta = envelope.meta;
+    if (!ValidationUtils.isPlainObject(meta)) return null;
+    if (typeof meta.correlationId !== 'string' || !correlationIdPattern.test(meta.correlationId)) {
+      return null;
+    }
+    return { meta: { correlationId: meta.correlationId }, args: envelope.args };
+  }
+
+  /**
+   * Exports the trace of every invoke since the app started
+   * @returns Session trace
+   */
+  export function exportTrace(): IpcTraceExport {
+    return tracer.export();
+  }
+
+  /**
+   * Registers an IPC handler with sender authorization, argument validation, error handling
+   * and tracing. The correlation id sent by the renderer tags every log line written while
+   * the handler runs, is recorded with the call duration, and is returned with errors.
+   * Registering a channel again replaces its handler, as when a use case is reloaded.
+   * @param channel - IPC channel name from the shared contract
    * @param handler - Handler function
+   * @returns Function that removes the handler, unless it has been replaced since
    */
-  export function registerHandler<T, R>(
-    channel: string,
-    handler: (event: IpcMainInvokeEvent, ...args: T[]) => Promise<R> | R
+  export function registerHandler<C extends IpcChannel>(
+    channel: C,
+    handler: Handler<C>
+  ): () => void {
+    const schema: readonly ValidationUtils.Validator[] = ipcSchemas[channel];
+    const registration = Symbol(channel);
+    registrations.set(channel, registration);
+
+    ipcMain.removeHandler(channel);
+    ipcMain.handle(channel, async (event, payload: unknown) => {
+      const envelope = unwrapEnvelope(payload);
+      if (!envelope) {
+        logger.warn(`Rejected malformed invoke on channel '${channel}' from sender ${event.sender.id}`);
+        throw createIpcError({
+          code: 'INVALID_ARGUMENTS',
+          channel,
+          message: 'Malformed invoke envelope',
+        });
+      }
+
+      const { correlationId } = envelope.meta;
+      const startedAt = new Date();
+
+      return SystemUtils.runWithContext({ correlationId }, async () => {
+        try {
+          authorizeCall(channel, schema, event, envelope.args);
+          const result = await handler(event, ...(envelope.args as IpcRequest<C>));
+
+          tracer.record({
+            correlationId,
+            channel,
+            senderId: event.sender.id,
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            status: 'ok',
+          });
+          return result;
+        } catch (error) {
+          const info: IpcErrorInfo =
+            error instanceof IpcError
+              ? { ...error.info, correlationId }
+              : {
+                  code: 'HANDLER_ERROR',
+                  channel,
+                  message: error instanceof Error ? error.message : String(error),
+                  correlationId,
+                };
+          if (info.code === 'HANDLER_ERROR') {
+            SystemUtils.log('error', `IPC handler error on channel '${channel}':`, error);
+          }
+
+          tracer.record({
+            correlationId,
+            channel,
+            senderId: event.sender.id,
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            status: 'error',
+            errorCode: info.code,
+            error: info.message,
+          });
+          throw createIpcError(info);
+        }
+      });
+    });
+
+    return () => {
+      if (registrations.get(channel) !== registration) return;
+      registrations.delete(channel);
+      ipcMain.removeHandler(channel);
+    };
+  }
+
+  /**
+   * Registers a streaming handler. The renderer sends the arguments together with a
+   * MessagePort; chunks, the end of the stream and errors are posted back on that port,
+   * and a cancel message or a closed port aborts the handler's signal.
+   * @param channel - Streaming channel name from the shared contract
+   * @param handler - Stream handler function
+   */
+  export function registerStreamHandler<C extends IpcStreamChannel>(
+    channel: C,
+    handler: StreamHandler<C>
   ): void {
-    ipcMain.handle(channel, async (event, ...args) => {
+    const schema: readonly ValidationUtils.Validator[] = ipcStreamSchemas[channel];
+
+    ipcMain.on(channel, async (event, args: unknown) => {
+      const [port] = event.ports;
+      if (!port) {
+        logger.warn(`Stream request on channel '${channel}' without a port, ignoring`);
+        return;
+      }
+
+      const controller = new AbortController();
+      let closed = false;
+      const post = (message: IpcStreamMessage<IpcStreamChunk<C>>) => {
+        if (!closed) port.postMessage(message);
+      };
+
+      port.on('message', ({ data }: { data: IpcStreamControl }) => {
+        if (data?.type === 'cancel') controller.abort();
+      });
+      port.on('close', () => {
+        closed = true;
+        controller.abort();
+      });
+      port.start();
+
       try {
-        return await handler(event, ...args);
+        const argList = Array.isArray(args) ? args : [args];
+        authorizeCall(channel, schema, event, argList);
+
+        await handler(
+          { event, signal: controller.signal, emit: (data) => post({ type: 'chunk', data }) },
+          ...(argList as IpcStreamRequest<C>)
+        );
+        post({ type: 'end' });
       } catch (error) {
-        SystemUtils.log('error', `IPC handler error on channel '${channel}':`, error);
-        throw error;
+        if (!controller.signal.aborted) {
+          SystemUtils.log('error', `IPC stream error on channel '${channel}':`, error);
+        }
+        post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+      } finally {
+        closed = true;
+        port.close();
       }
     });
   }
 
   /**
-   * Sends a message to a specific window
+   * Sends an event to a specific window
    * @param window - BrowserWindow instance
-   * @param channel - IPC channel name
-   * @param data - Data to send
+   * @param channel - Event channel name from the shared contract
+   * @param payload - Event payload
    */
-  export function sendMessage(window: BrowserWindow, channel: string, ...data: any[]): void {
+  export function sendMessage<C extends IpcEventChannel>(
+    window: BrowserWindow,
+    channel: C,
+    payload: IpcEventPayload<C>
+  ): void {
     if (window && !window.isDestroyed()) {
-      window.webContents.send(channel, ...data);
+      window.webContents.send(channel, payload);
     }
   }
 
   /**
-   * Broadcasts a message to all windows
-   * @param channel - IPC channel name
-   * @param data - Data to send
+   * Broadcasts an event to all windows
+   * @param channel - Event channel name from the shared contract
+   * @param payload - Event payload
    */
-  export function broadcastMessage(channel: string, ...data: any[]): void {
+  export function broadcastMessage<C extends IpcEventChannel>(
+    channel: C,
+    payload: IpcEventPayload<C>
+  ): void {
     BrowserWindow.getAllWindows().forEach(window => {
       if (!window.isDestroyed()) {
-        window.webContents.send(channel, ...data);
+        window.webContents.send(channel, payload);
       }
     });
   }
@@ -0,0 +1,29 @@
+import type { IpcChannel, IpcStreamChannel } from '../../../shared/ipc-channels';
+import type { RateLimit } from './rate-limiter';
+
+/**
+ * Sender authorization policy for a channel
+ */
+export interface ChannelPolicy {
+  // URLs allowed to call the channel; defaults to the app URLs set with IpcUtils.setTrustedOrigins
+  origins?: string[];
+  // Whether frames other than the main frame may call the channel
+  allowSubframes?: boolean;
+  // Per-sender budget; defaults to rateLimiting in security.config.json, false disables it
+  rateLimit?: RateLimit | false;
+}
+
+export const defaultChannelPolicy: Required<Omit<ChannelPolicy, 'origins' | 'rateLimit'>> = {
+  allowSubframes: false,
+};
+
+/**
+ * Channels that differ from the default policy (app URLs only, main frame only)
+ */
+export const ipcPolicies: Partial<Record<IpcChannel | IpcStreamChannel, ChannelPolicy>> = {
+  // Every call opens a browser tab
+  'open-external': { rateLimit: { maxRequests: 5, windowMs: 10000 } },
+  // Each stream is one long job, so far fewer are allowed than plain invokes
+  'download-file': { rateLimit: { maxRequests: 10, windowMs: 60000 } },
+  'list-files': { rateLimit: { maxRequests: 20, windowMs: 60000 } },
+};
@@ -0,0 +1,142 @@
+import type { RateLimitCounter } from '../../../shared/ipc-channels';
+
+/**
+ * Request budget for one channel and sender
+ */
+export interface RateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  allowed: number;
+  throttled: number;
+  // True while consecutive calls are being throttled
+  throttling: boolean;
+  limit: RateLimit;
+}
+
+/**
+ * Token-bucket rate limiter keyed by sender (webContents id) and channel.
+ * Each bucket holds up to maxRequests tokens and refills continuously over windowMs.
+ */
+export class RateLimiter {
+  private buckets: Map<number, Map<string, Bucket>> = new Map();
+
+  /**
+   * Consumes one token for a call
+   * @param senderId - webContents id of the caller
+   * @param channel - IPC channel name
+   * @param limit - Budget for this channel and sender
+   * @param now - Current time in milliseconds
+   * @returns Whether the call is allowed, whether it is the first throttled call in a row,
+   * and how long to wait for the next token
+   */
+  consume(
+    senderId: number,
+    channel: string,
+    limit: RateLimit,
+    now: number = Date.now()
+  ): { allowed: boolean; firstThrottled: boolean; retryAfterMs: number } {
+    const bucket = this.getBucket(senderId, channel, limit, now);
+    this.refill(bucket, now);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.allowed += 1;
+      bucket.throttling = false;
+      return { allowed: true, firstThrottled: false, retryAfterMs: 0 };
+    }
+
+    const firstThrottled = !bucket.throttling;
+    bucket.throttling = true;
+    bucket.throttled += 1;
+    const refillPerMs = limit.maxRequests / limit.windowMs;
+    return {
+      allowed: false,
+      firstThrottled,
+      retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs),
+    };
+  }
+
+  /**
+   * Drops all buckets of a sender, e.g. when its webContents is destroyed
+   * @param senderId - webContents id
+   */
+  clearSender(senderId: number): void {
+    this.buckets.delete(senderId);
+  }
+
+  /**
+   * Checks whether a sender already has buckets
+   * @param senderId - webContents id
+   * @returns True if the sender is tracked
+   */
+  hasSender(senderId: number): boolean {
+    return this.buckets.has(senderId);
+  }
+
+  /**
+   * Gets counters for every tracked sender and channel
+   * @param now - Current time in milliseconds
+   * @returns Counters, one per bucket
+   */
+  getCounters(now: number = Date.now()): RateLimitCounter[] {
+    const counters: RateLimitCounter[] = [];
+
+    this.buckets.forEach((channels, senderId) => {
+      channels.forEach((bucket, channel) => {
+        this.refill(bucket, now);
+        counters.push({
+          senderId,
+          channel,
+          allowed: bucket.allowed,
+          throttled: bucket.throttled,
+          tokens: Math.floor(bucket.tokens),
+          maxRequests: bucket.limit.maxRequests,
+          windowMs: bucket.limit.windowMs,
+        });
+      });
+    });
+
+    return counters;
+  }
+
+  private getBucket(senderId: number, channel: string, limit: RateLimit, now: number): Bucket {
+    let channels = this.buckets.get(senderId);
+    if (!channels) {
+      channels = new Map();
+      this.buckets.set(senderId, channels);
+    }
+
+    let bucket = channels.get(channel);
+    if (!bucket) {
+      bucket = {
+        tokens: limit.maxRequests,
+        updatedAt: now,
+        allowed: 0,
+        throttled: 0,
+        throttling: false,
+        limit,
+      };
+      channels.set(channel, bucket);
+    } else if (
+      bucket.limit.maxRequests !== limit.maxRequests ||
+      bucket.limit.windowMs !== limit.windowMs
+    ) {
+      // Limit changed at runtime: keep the counters, clamp the tokens to the new capacity
+      bucket.limit = limit;
+      bucket.tokens = Math.min(bucket.tokens, limit.maxRequests);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    const refillPerMs = bucket.limit.maxRequests / bucket.limit.windowMs;
+    bucket.tokens = Math.min(bucket.limit.maxRequests, bucket.tokens + elapsed * refillPerMs);
+    bucket.updatedAt = now;
+  }
+}
@@ -0,0 +1,118 @@
+import type {
+  IpcChannel,
+  IpcRequest,
+  IpcStreamChannel,
+  IpcStreamRequest,
+} from '../../../shared/ipc-channels';
+import { defaultShortcuts } from '../../../shared/shortcuts';
+import { ValidationUtils } from '../validation/validation';
+
+const { isString, isNumber, isBoolean, isHttpUrl, optional, arrayOf, shape } = ValidationUtils;
+
+type ValidatorsFor<T extends readonly unknown[]> = {
+  readonly [I in keyof T]: ValidationUtils.Validator;
+};
+
+/**
+ * One validator per positional argument of a channel
+ */
+export type ArgsSchema<C extends IpcChannel> = ValidatorsFor<IpcRequest<C>>;
+export type StreamArgsSchema<C extends IpcStreamChannel> = ValidatorsFor<IpcStreamRequest<C>>;
+
+const fileFilter = shape({
+  name: isString,
+  extensions: arrayOf(isString),
+});
+
+const dialogOptions = shape({
+  title: optional(isString),
+  defaultPath: optional(isString),
+  buttonLabel: optional(isString),
+  message: optional(isString),
+  filters: optional(arrayOf(fileFilter)),
+  properties: optional(arrayOf(isString)),
+});
+
+/**
+ * Workspace snapshot, also used to check imported workspace files
+ */
+export const workspaceSnapshot = shape({
+  viewport: shape({ width: isNumber, height: isNumber }),
+  windows: arrayOf(
+    shape({
+      useCaseId: isString,
+      title: isString,
+      x: isNumber,
+      y: isNumber,
+      width: isNumber,
+      height: isNumber,
+      isMinimized: isBoolean,
+      isFitted: isBoolean,
+      isPinned: optional(isBoolean),
+      stackIndex: optional(isNumber),
+    })
+  ),
+});
+
+const userTopicInput = shape({
+  title: isString,
+  category: isString,
+  tags: arrayOf(isString),
+  markdown: isString,
+});
+
+const categoryPreferences = shape({
+  order: arrayOf(isString),
+  hidden: arrayOf(isString),
+});
+
+// Every action is optional; unknown actions are dropped by the handler
+const shortcutBindings = shape(
+  Object.fromEntries(Object.keys(defaultShortcuts).map((action) => [action, optional(isString)]))
+);
+
+/**
+ * Argument schemas for every channel of the IPC contract.
+ * The mapped type makes a missing channel or a wrong argument count a compile error.
+ */
+export const ipcSchemas: { [C in IpcChannel]: ArgsSchema<C> } = {
+  'set-title': [isString],
+  'get-system-info': [],
+  'show-open-dialog': [dialogOptions],
+  'show-save-dialog': [dialogOptions],
+  'get-ipc-diagnostics': [],
+  'get-ipc-trace': [],
+  'get-use-case-info': [isString],
+  'open-external': [isHttpUrl],
+  'list-user-topics': [],
+  'get-user-topic': [isString],
+  'create-user-topic': [userTopicInput],
+  'update-user-topic': [isString, userTopicInput],
+  'delete-user-topic': [isString],
+  'get-workspaces': [],
+  'save-workspace': [isString, workspaceSnapshot],
+  'create-workspace': [isString],
+  'rename-workspace': [isString, isString],
+  'delete-workspace': [isString],
+  'set-active-workspace': [isString],
+  'set-workspace-restore': [isBoolean],
+  'export-workspaces': [],
+  'import-workspaces': [],
+  'detach-window': [isString, isString],
+  'dock-window': [isString],
+  'focus-detached-window': [isString],
+  'get-detached-windows': [],
+  'get-shortcuts': [],
+  'set-shortcuts': [shortcutBindings],
+  'reset-shortcuts': [],
+  'get-category-preferences': [],
+  'set-category-preferences': [categoryPreferences],
+};
+
+/**
+ * Argument schemas for every streaming channel of the IPC contract
+ */
+export const ipcStreamSchemas: { [C in IpcStreamChannel]: StreamArgsSchema<C> } = {
+  'download-file': [isHttpUrl, isString],
+  'list-files': [isString],
+};
@@ -0,0 +1,36 @@
+import * as crypto from 'crypto';
+import type { IpcTraceEntry, IpcTraceExport } from '../../../shared/ipc-channels';
+
+/**
+ * Records traced IPC calls for the current session, keeping the most recent entries
+ */
+export class TraceRecorder {
+  private entries: IpcTraceEntry[] = [];
+  private readonly sessionId = crypto.randomUUID();
+  private readonly startedAt = new Date().toISOString();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  /**
+   * Records a finished call
+   * @param entry - Trace entry
+   */
+  record(entry: IpcTraceEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Exports the session trace
+   * @returns Session id, start time and entries, oldest first
+   */
+  export(): IpcTraceExport {
+    return {
+      sessionId: this.sessionId,
+      startedAt: this.startedAt,
+      entries: [...this.entries],
+    };
+  }
+}
@@ -13,10 +13,23 @@ export namespace NetworkUtils {
    * Downloads a file from a URL
    * @param url - URL to download from
    * @param destPath - Destination path
+   * @param options - Optional progress callback and abort signal
    * @returns Promise that resolves when download is complete
    */
-  export function downloadFile(url: string, destPath: string): Promise<boolean> {
+  export function downloadFile(
+    url: string,
+    destPath: string,
+    options: {
+      onProgress?: (receivedBytes: number, totalBytes: number | null) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<boolean> {
     return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Download cancelled'));
+        return;
+      }
+
       const parsedUrl = new URL(url);
       const client = parsedUrl.protocol === 'https:' ? https : http;
       
@@ -26,6 +39,15 @@ export namespace NetworkUtils {
           reject(new Error(`Download failed with status code: ${response.statusCode}`));
           return;
         }
+
+        const contentLength = parseInt(response.headers['content-length'] || '', 10);
+        const totalBytes = Number.isNaN(contentLength) ? null : contentLength;
+        let receivedBytes = 0;
+
+        response.on('data', (chunk: Buffer) => {
+          receivedBytes += chunk.length;
+          options.onProgress?.(receivedBytes, totalBytes);
+        });
         
         response.pipe(file);
         
@@ -39,10 +61,22 @@ export namespace NetworkUtils {
           reject(err);
         });
       });
+
+      const onAbort = () => {
+        req.destroy();
+        file.close();
+        fs.unlink(destPath, () => {}); // Delete the partial file async
+        reject(new Error('Download cancelled'));
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
       
       req.on('error', (err) => {
         reject(err);
       });
+
+      req.on('close', () => {
+        options.signal?.removeEventListener('abort', onAbort);
+      });
       
       req.end();
     });
@@ -1,11 +1,91 @@
 import * as crypto from 'crypto';
 import * as fs from 'fs';
+import { SecurityConfig, SecurityEvent } from '../common/types';
+import { FileUtils } from '../filesystem/files';
 import { SystemUtils } from '../system/system';
 
 /**
  * Security utilities for the main process
  */
 export namespace SecurityUtils {
+  const logger = SystemUtils.createLogger('Security');
+  const MAX_SECURITY_EVENTS = 500;
+
+  const defaultSecurityConfig: SecurityConfig = {
+    hardening: {
+      enableContextIsolation: true,
+      disableNodeIntegration: true,
+      enableSandbox: true,
+      validateInputs: true,
+      sanitizeOutputs: true,
+    },
+    rateLimiting: {
+      enabled: true,
+      maxRequests: 100,
+      windowMs: 60000,
+    },
+    logging: {
+      securityEvents: true,
+      piiMasking: true,
+      retentionDays: 90,
+    },
+  };
+
+  let securityConfig: SecurityConfig = defaultSecurityConfig;
+  const securityEvents: SecurityEvent[] = [];
+
+  /**
+   * Loads security.config.json, falling back to secure defaults for missing sections
+   * @param configPath - Path to security.config.json
+   * @returns Effective security configuration
+   */
+  export function loadSecurityConfig(configPath: string): SecurityConfig {
+    const file = FileUtils.readJsonFile<{ security?: Partial<SecurityConfig> }>(configPath, {});
+    const loaded = file.security || {};
+
+    securityConfig = {
+      hardening: { ...defaultSecurityConfig.hardening, ...loaded.hardening },
+      rateLimiting: { ...defaultSecurityConfig.rateLimiting, ...loaded.rateLimiting },
+      logging: { ...defaultSecurityConfig.logging, ...loaded.logging },
+    };
+    return securityConfig;
+  }
+
+  /**
+   * Gets the effective security configuration
+   * @returns Security configuration
+   */
+  export function getSecurityConfig(): SecurityConfig {
+    return securityConfig;
+  }
+
+  /**
+   * Records a security event, keeping the most recent events in memory
+   * @param type - Event type
+   * @param details - Event details
+   */
+  export function recordSecurityEvent(
+    type: SecurityEvent['type'],
+    details: Record<string, unknown>
+  ): void {
+    securityEvents.push({ type, timestamp: new Date().toISOString(), details });
+    if (securityEvents.length > MAX_SECURITY_EVENTS) {
+      securityEvents.shift();
+    }
+
+    if (securityConfig.logging.securityEvents) {
+      logger.warn(`Security event: ${type}`, details);
+    }
+  }
+
+  /**
+   * Gets recorded security events
+   * @returns Recorded events, oldest first
+   */
+  export function getSecurityEvents(): SecurityEvent[] {
+    return [...securityEvents];
+  }
+
   /**
    * Hashes a string using SHA-256
    * @param data - Data to hash
@@ -1,12 +1,15 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import * as os from 'os';
 import * as path from 'path';
 import { app } from 'electron';
-import { SystemInfo } from '../common/types';
+import { LogContext, SystemInfo } from '../common/types';
 
 /**
  * System and application utilities
  */
 export namespace SystemUtils {
+  const logContext = new AsyncLocalStorage<LogContext>();
+
   /**
    * Gets system information
    * @returns System info object
@@ -45,6 +48,25 @@ export namespace SystemUtils {
     return subPath ? path.join(tempPath, subPath) : tempPath;
   }
 
+  /**
+   * Runs a function with a logging context; every log line written while it runs,
+   * including from awaited async work, is tagged with the context
+   * @param context - Logging context, e.g. the correlation id of an IPC call
+   * @param fn - Function to run
+   * @returns Result of the function
+   */
+  export function runWithContext<T>(context: LogContext, fn: () => T): T {
+    return logContext.run(context, fn);
+  }
+
+  /**
+   * Gets the logging context of the current call
+   * @returns Logging context, or undefined outside runWithContext
+   */
+  export function getLogContext(): LogContext | undefined {
+    return logContext.getStore();
+  }
+
   /**
    * Logs messages with timestamp and level
    * @param level - Log level (info, warn, error, debug)
@@ -53,7 +75,9 @@ export namespace SystemUtils {
    */
   export function log(level: 'info' | 'warn' | 'error' | 'debug' | 'verbose', message: string, data?: any): void {
     const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] [${level.toUpperCase()}] ${message}`;
+    const context = logContext.getStore();
+    const contextTag = context ? ` [cid:${context.correlationId}]` : '';
+    const logMessage = `[${timestamp}] [${level.toUpperCase()}]${contextTag} ${message}`;
 
     switch (level) {
       case 'error':
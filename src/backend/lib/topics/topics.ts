@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { UserTopic, UserTopicInput } from '../../../shared/ipc-channels';
+import { parseFrontMatter, stringifyTopic } from '../../../shared/markdown';
+import { FileUtils } from '../filesystem/files';
+import { SystemUtils } from '../system/system';
+
+/**
+ * Topics written by the user: one Markdown file with front-matter per topic,
+ * in the topics folder of the app data. Files added there by hand are listed too.
+ */
+export namespace TopicUtils {
+  const logger = SystemUtils.createLogger('TopicUtils');
+  const changeListeners: Set<(topics: UserTopic[]) => void> = new Set();
+  // Also the file name, so nothing that could leave the folder
+  const idPattern = /^[a-z0-9][\w-]*$/i;
+  const maxMarkdownLength = 512 * 1024;
+  const defaultCategory = 'notes';
+
+  /**
+   * Gets the folder holding the topic files
+   * @returns Folder path
+   */
+  export function getTopicsDir(): string {
+    return SystemUtils.getAppDataPath('topics');
+  }
+
+  /**
+   * Subscribes to topic changes
+   * @param listener - Called with every topic after each create, update or delete
+   * @returns Function that removes the listener
+   */
+  export function onChange(listener: (topics: UserTopic[]) => void): () => void {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  }
+
+  function getTopicPath(id: string): string {
+    if (!idPattern.test(id)) {
+      throw new Error(`Invalid topic id: ${id}`);
+    }
+    return path.join(getTopicsDir(), `${id}.md`);
+  }
+
+  function readTopic(id: string): UserTopic {
+    const filePath = getTopicPath(id);
+    const { data, body } = parseFrontMatter(fs.readFileSync(filePath, 'utf8'));
+    // A value written as [a, b] is read as a list, whatever the field
+    const text = (value: string | string[] | undefined) =>
+      Array.isArray(value) ? value.join(', ') : (value ?? '');
+    const tags = data.tags ?? [];
+
+    return {
+      id,
+      title: text(data.title) || id,
+      category: text(data.category) || defaultCategory,
+      tags: Array.isArray(tags) ? tags : [tags],
+      markdown: body.trim(),
+      updatedAt: fs.statSync(filePath).mtime.toISOString(),
+    };
+  }
+
+  function writeTopic(id: string, input: UserTopicInput): UserTopic {
+    if (input.markdown.length > maxMarkdownLength) {
+      throw new Error(`Topic is too long: at most ${maxMarkdownLength} characters`);
+    }
+    if (!FileUtils.ensureDirectory(getTopicsDir())) {
+      throw new Error('Failed to create the topics folder');
+    }
+
+    const metadata = {
+      id,
+      title: input.title.trim() || 'Untitled',
+      category: input.category.trim().toLowerCase() || defaultCategory,
+      tags: input.tags.map((tag) => tag.trim()).filter(Boolean),
+    };
+    fs.writeFileSync(getTopicPath(id), stringifyTopic(metadata, input.markdown));
+    return readTopic(id);
+  }
+
+  function notifyChange(): void {
+    const topics = listTopics();
+    changeListeners.forEach((listener) => listener(topics));
+  }
+
+  /**
+   * Lists the topics, most recently updated first. Unreadable files are logged and skipped.
+   * @returns Topics
+   */
+  export function listTopics(): UserTopic[] {
+    const dir = getTopicsDir();
+    if (!fs.existsSync(dir)) return [];
+
+    const topics: UserTopic[] = [];
+    for (const fileName of fs.readdirSync(dir)) {
+      const id = fileName.replace(/\.md$/, '');
+      if (id === fileName || !idPattern.test(id)) continue;
+
+      try {
+        topics.push(readTopic(id));
+      } catch (error) {
+        logger.error(`Failed to read topic '${fileName}':`, error);
+      }
+    }
+    return topics.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Reads a topic
+   * @param id - Topic id
+   * @returns Topic
+   */
+  export function getTopic(id: string): UserTopic {
+    if (!fs.existsSync(getTopicPath(id))) {
+      throw new Error(`Unknown topic: ${id}`);
+    }
+    return readTopic(id);
+  }
+
+  /**
+   * Creates a topic, with an id made from its title
+   * @param input - Topic fields
+   * @returns Created topic
+   */
+  export function createTopic(input: UserTopicInput): UserTopic {
+    const slug =
+      input.title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 48) || 'topic';
+    // Prefixed, so that a user topic never takes the id of a use case
+    let id = `user-${slug}`;
+    for (let suffix = 2; fs.existsSync(getTopicPath(id)); suffix++) {
+      id = `user-${slug}-${suffix}`;
+    }
+
+    const topic = writeTopic(id, input);
+    notifyChange();
+    return topic;
+  }
+
+  /**
+   * Replaces the fields of a topic
+   * @param id - Topic id
+   * @param input - New topic fields
+   * @returns Updated topic
+   */
+  export function updateTopic(id: string, input: UserTopicInput): UserTopic {
+    getTopic(id);
+    const topic = writeTopic(id, input);
+    notifyChange();
+    return topic;
+  }
+
+  /**
+   * Deletes a topic file
+   * @param id - Topic id
+   */
+  export function deleteTopic(id: string): void {
+    getTopic(id);
+    if (!FileUtils.deleteFile(getTopicPath(id))) {
+      throw new Error(`Failed to delete topic: ${id}`);
+    }
+    notifyChange();
+  }
+}
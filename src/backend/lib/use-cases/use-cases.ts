@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { UseCaseInfo } from '../../../shared/ipc-channels';
+import { compileTopic } from '../../../shared/markdown';
+import type { UseCaseHandlerRegistrar, UseCaseManifest } from '../../../use-cases/types';
+import { SystemUtils } from '../system/system';
+
+interface LoadedUseCase {
+  manifest: UseCaseManifest;
+  register: UseCaseHandlerRegistrar;
+  // Remove the handlers registered by register
+  disposers: (() => void)[];
+}
+
+/**
+ * Use-case discovery and content providers for the main process
+ */
+export namespace UseCaseUtils {
+  const logger = SystemUtils.createLogger('UseCaseUtils');
+  const infoProviders: Map<string, () => UseCaseInfo | Promise<UseCaseInfo>> = new Map();
+  // Loaded use cases, keyed by folder name
+  const loaded: Map<string, LoadedUseCase> = new Map();
+  const reloadDelayMs = 150;
+
+  /**
+   * Registers the provider answering 'get-use-case-info' for a use case
+   * @param id - Use-case id from its manifest
+   * @param provider - Returns the use-case info
+   * @returns Function that removes the provider, unless it has been replaced since
+   */
+  export function provideInfo(
+    id: string,
+    provider: () => UseCaseInfo | Promise<UseCaseInfo>
+  ): () => void {
+    infoProviders.set(id, provider);
+    return () => {
+      if (infoProviders.get(id) === provider) {
+        infoProviders.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Gets the info of a use case
+   * @param id - Use-case id
+   * @returns Use-case info
+   */
+  export async function getInfo(id: string): Promise<UseCaseInfo> {
+    const provider = infoProviders.get(id);
+    if (!provider) {
+      throw new Error(`Unknown use case: ${id}`);
+    }
+    return provider();
+  }
+
+  /**
+   * Discovers the use cases under a directory and registers their handlers.
+   * Every subfolder with a manifest module is a use case; a folder that fails
+   * to load is logged and skipped.
+   * @param rootDir - Directory holding one folder per use case
+   * @returns Loaded manifests, in menu order
+   */
+  export async function loadUseCases(rootDir: string): Promise<UseCaseManifest[]> {
+    const manifests: UseCaseManifest[] = [];
+
+    for (const entry of fs.readdirSync(rootDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      try {
+        manifests.push(await loadUseCase(rootDir, entry.name));
+      } catch (error) {
+        logger.error(`Failed to load use case '${entry.name}':`, error);
+      }
+    }
+
+    logger.info(`Loaded ${manifests.length} use cases`);
+    return manifests.sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Re-imports a use case and registers it again, replacing its current handlers.
+   * The old handlers stay in place if the new module fails to load or register.
+   * @param rootDir - Directory holding one folder per use case
+   * @param folder - Folder name of the use case
+   * @returns Reloaded manifest
+   */
+  export async function reloadUseCase(rootDir: string, folder: string): Promise<UseCaseManifest> {
+    const folderPath = path.join(rootDir, folder) + path.sep;
+    for (const modulePath of Object.keys(require.cache)) {
+      if (modulePath.startsWith(folderPath)) {
+        delete require.cache[modulePath];
+      }
+    }
+
+    return loadUseCase(rootDir, folder);
+  }
+
+  /**
+   * Watches the use-case sources and hot-reloads a use case when one of its
+   * main-process files or its topic changes. Changed .ts files are transpiled,
+   * and topics copied, into the compiled use cases the main process loads, never
+   * into the sources. Window modules are left to the renderer dev server.
+   * Development only.
+   * @param sourceDir - Source directory holding one folder per use case
+   * @param rootDir - Directory of the compiled use cases, as passed to loadUseCases
+   * @param onReload - Called after a use case was reloaded
+   * @returns Function that stops watching
+   */
+  export function watchUseCases(
+    sourceDir: string,
+    rootDir: string,
+    onReload: (manifest: UseCaseManifest) => void
+  ): () => void {
+    const pending: Map<string, { files: Set<string>; timer?: NodeJS.Timeout }> = new Map();
+
+    const flush = async (folder: string, files: Set<string>) => {
+      pending.delete(folder);
+      try {
+        for (const file of files) {
+          await compile(path.join(sourceDir, file), path.join(rootDir, file));
+        }
+        const manifest = await reloadUseCase(rootDir, folder);
+        logger.info(`Reloaded use case '${manifest.id}'`);
+        onReload(manifest);
+      } catch (error) {
+        logger.error(`Failed to reload use case '${folder}':`, error);
+      }
+    };
+
+    const watcher = fs.watch(sourceDir, { recursive: true }, (_eventType, fileName) => {
+      if (!fileName || fileName.endsWith('.d.ts') || !/\.(ts|md)$/.test(fileName)) return;
+
+      const [folder, ...rest] = fileName.split(path.sep);
+      if (rest.length === 0) return;
+
+      // Editors emit several events per save: batch them per use case
+      const entry = pending.get(folder) ?? { files: new Set<string>(), timer: undefined };
+      clearTimeout(entry.timer);
+      entry.files.add(fileName);
+      entry.timer = setTimeout(() => flush(folder, entry.files), reloadDelayMs);
+      pending.set(folder, entry);
+    });
+
+    logger.info(`Watching use cases in ${sourceDir}`);
+    return () => {
+      pending.forEach((entry) => clearTimeout(entry.timer));
+      pending.clear();
+      watcher.close();
+    };
+  }
+
+  // Topics import as compiled modules, like the Rspack loader makes them for the renderer
+  function registerTopicModules(): void {
+    require.extensions['.md'] ??= (topicModule, fileName) => {
+      const topic = compileTopic(fs.readFileSync(fileName, 'utf8'), fileName);
+      topicModule.exports = { __esModule: true, default: topic };
+    };
+  }
+
+  async function loadUseCase(rootDir: string, folder: string): Promise<UseCaseManifest> {
+    registerTopicModules();
+    const { manifest }: { manifest: UseCaseManifest } = await import(
+      path.join(rootDir, folder, 'manifest')
+    );
+    const register = await manifest.loadHandler();
+    const previous = loaded.get(folder);
+
+    // The new handlers replace the previous ones, whose disposers then only remove
+    // what the new version no longer registers
+    let disposers: (() => void)[];
+    try {
+      disposers = register();
+    } catch (error) {
+      // Put the previous handlers back over whatever the new version registered
+      if (previous) {
+        loaded.set(folder, { ...previous, disposers: previous.register() });
+      }
+      throw error;
+    }
+    previous?.disposers.forEach((dispose) => dispose());
+
+    loaded.set(folder, { manifest, register, disposers });
+    return manifest;
+  }
+
+  // Writes the compiled form of a changed source file: .ts transpiled, topics as they are
+  async function compile(sourcePath: string, outPath: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(outPath), { recursive: true });
+    if (sourcePath.endsWith('.md')) {
+      await fs.promises.copyFile(sourcePath, outPath);
+      return;
+    }
+
+    // Dev dependency: only loaded when watching
+    const ts = await import('typescript');
+    const source = await fs.promises.readFile(sourcePath, 'utf8');
+    const output = ts.transpileModule(source, {
+      fileName: sourcePath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2022,
+        esModuleInterop: true,
+      },
+    });
+    await fs.promises.writeFile(outPath.replace(/\.ts$/, '.js'), output.outputText);
+  }
+}
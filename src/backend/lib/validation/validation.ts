@@ -0,0 +1,118 @@
+/**
+ * Validation utilities for the main process
+ */
+export namespace ValidationUtils {
+  /**
+   * Validator for a single value received from the renderer
+   */
+  export type Validator = (value: unknown) => boolean;
+
+  export const isString: Validator = (value) => typeof value === 'string';
+  export const isNumber: Validator = (value) => typeof value === 'number' && Number.isFinite(value);
+  export const isBoolean: Validator = (value) => typeof value === 'boolean';
+
+  /**
+   * Checks for an absolute http or https URL
+   * @param value - Value to check
+   * @returns True if http(s) URL
+   */
+  export function isHttpUrl(value: unknown): boolean {
+    if (typeof value !== 'string') return false;
+    try {
+      const { protocol } = new URL(value);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks for a plain object (not null, not an array)
+   * @param value - Value to check
+   * @returns True if plain object
+   */
+  export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Allows undefined in addition to the values accepted by a validator
+   * @param validator - Validator for defined values
+   * @returns Validator
+   */
+  export function optional(validator: Validator): Validator {
+    return (value) => value === undefined || validator(value);
+  }
+
+  /**
+   * Validates every item of an array
+   * @param validator - Validator for each item
+   * @returns Validator
+   */
+  export function arrayOf(validator: Validator): Validator {
+    return (value) => Array.isArray(value) && value.every(validator);
+  }
+
+  /**
+   * Validates a plain object against a schema of property validators
+   * @param schema - Property validators
+   * @returns Validator
+   */
+  export function shape(schema: Record<string, Validator>): Validator {
+    return (value) => isPlainObject(value) && validateSchema(value, schema).isValid;
+  }
+
+  /**
+   * Validates an object against a schema
+   * @param obj - Object to validate
+   * @param schema - Validation schema
+   * @returns Validation result
+   */
+  export function validateSchema(
+    obj: Record<string, unknown>,
+    schema: Record<string, Validator>
+  ): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    for (const key of Object.keys(schema)) {
+      if (!schema[key](obj[key])) {
+        errors.push(`Invalid value for property: ${key}`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validates positional IPC arguments
+   * @param args - Arguments received from the renderer
+   * @param validators - One validator per expected argument
+   * @returns Validation result
+   */
+  export function validateArgs(
+    args: unknown[],
+    validators: readonly Validator[]
+  ): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (args.length > validators.length) {
+      errors.push(`Expected at most ${validators.length} argument(s), received ${args.length}`);
+    }
+
+    validators.forEach((validator, index) => {
+      if (!validator(args[index])) {
+        errors.push(`Invalid value for argument ${index}`);
+      }
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+}
+
+export default ValidationUtils;
@@ -0,0 +1,125 @@
+import * as crypto from 'crypto';
+import { BrowserWindow, type BrowserWindowConstructorOptions } from 'electron';
+import type { DetachedWindowInfo } from '../../../shared/ipc-channels';
+
+/**
+ * Registry of use-case windows detached from the WinBox desktop into native windows
+ */
+export namespace WindowUtils {
+  const detachedWindows: Map<string, { info: DetachedWindowInfo; window: BrowserWindow }> =
+    new Map();
+  const changeListeners: Set<(windows: DetachedWindowInfo[]) => void> = new Set();
+  let getWindowOptions: () => BrowserWindowConstructorOptions = () => ({});
+  let appUrl = '';
+
+  /**
+   * Sets how detached windows are created, so that they get the same preload and
+   * security settings as the main window
+   * @param windowOptions - Returns the options of the main window
+   * @param url - URL the renderer is loaded from
+   */
+  export function configure(
+    windowOptions: () => BrowserWindowConstructorOptions,
+    url: string
+  ): void {
+    getWindowOptions = windowOptions;
+    appUrl = url;
+  }
+
+  /**
+   * Subscribes to changes of the detached windows
+   * @param listener - Called with all detached windows after one is opened or closed
+   * @returns Function that removes the listener
+   */
+  export function onChange(listener: (windows: DetachedWindowInfo[]) => void): () => void {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Opens a use case in a native window. The renderer is loaded with the window
+   * in its query string and shows only that use case.
+   * @param useCaseId - Use-case id
+   * @param title - Window title
+   * @returns The detached window
+   */
+  export function detach(useCaseId: string, title: string): DetachedWindowInfo {
+    const info: DetachedWindowInfo = { id: crypto.randomUUID(), useCaseId, title };
+    const window = new BrowserWindow({
+      ...getWindowOptions(),
+      width: 900,
+      height: 700,
+      minWidth: 400,
+      minHeight: 300,
+      title,
+    });
+
+    const url = new URL(appUrl);
+    url.searchParams.set('detached', info.id);
+    url.searchParams.set('useCase', useCaseId);
+    url.searchParams.set('title', title);
+    window.loadURL(url.toString());
+
+    // Keep the use-case title instead of the page title
+    window.on('page-title-updated', (event) => event.preventDefault());
+    window.on('closed', () => {
+      if (detachedWindows.delete(info.id)) notifyListeners();
+    });
+
+    detachedWindows.set(info.id, { info, window });
+    notifyListeners();
+    return info;
+  }
+
+  /**
+   * Closes a detached window so that its use case can return to the WinBox desktop
+   * @param id - Detached window id
+   * @returns The closed window, or null if it is not open
+   */
+  export function dock(id: string): DetachedWindowInfo | null {
+    const entry = detachedWindows.get(id);
+    if (!entry) return null;
+
+    detachedWindows.delete(id);
+    if (!entry.window.isDestroyed()) entry.window.close();
+    notifyListeners();
+    return entry.info;
+  }
+
+  /**
+   * Brings a detached window to the front
+   * @param id - Detached window id
+   */
+  export function focus(id: string): void {
+    const window = detachedWindows.get(id)?.window;
+    if (!window || window.isDestroyed()) return;
+
+    if (window.isMinimized()) window.restore();
+    window.focus();
+  }
+
+  /**
+   * Gets all detached windows, oldest first
+   */
+  export function getDetachedWindows(): DetachedWindowInfo[] {
+    return Array.from(detachedWindows.values(), (entry) => entry.info);
+  }
+
+  /**
+   * Closes every detached window, e.g. when the main window is closed
+   */
+  export function closeAll(): void {
+    detachedWindows.forEach(({ window }) => {
+      if (!window.isDestroyed()) window.close();
+    });
+    detachedWindows.clear();
+    notifyListeners();
+  }
+
+  function notifyListeners(): void {
+    const windows = getDetachedWindows();
+    changeListeners.forEach((listener) => listener(windows));
+  }
+}
@@ -1,18 +0,0 @@
-// Backend use case for Electron architecture functionality
-import { ipcMain } from 'electron';
-
-const registerElectronArchitectureHandlers = (): void => {
-  // Register IPC handlers for Electron architecture related functionality
-  ipcMain.handle('get-electron-architecture-info', async () => {
-    return {
-      title: 'Electron Architecture',
-      content: 'Electron applications have two main processes: the Main Process and the Renderer Process.',
-      category: 'architecture',
-      tags: ['main-process', 'renderer-process', 'ipc', 'architecture']
-    };
-  });
-
-  // Additional handlers can be added here
-};
-
-export { registerElectronArchitectureHandlers };
\ No newline at end of file
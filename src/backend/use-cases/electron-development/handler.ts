@@ -1,18 +0,0 @@
-// Backend use case for Electron development functionality
-import { ipcMain } from 'electron';
-
-const registerElectronDevelopmentHandlers = (): void => {
-  // Register IPC handlers for Electron development related functionality
-  ipcMain.handle('get-electron-development-info', async () => {
-    return {
-      title: 'Development Workflow',
-      content: 'Effective Electron development involves using tools like Hot Module Replacement (HMR), development servers, and proper debugging setups.',
-      category: 'development',
-      tags: ['development', 'workflow', 'debugging', 'hmr']
-    };
-  });
-
-  // Additional handlers can be added here
-};
-
-export { registerElectronDevelopmentHandlers };
\ No newline at end of file
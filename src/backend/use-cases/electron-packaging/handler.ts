@@ -1,18 +0,0 @@
-// Backend use case for Electron packaging functionality
-import { ipcMain } from 'electron';
-
-const registerElectronPackagingHandlers = (): void => {
-  // Register IPC handlers for Electron packaging related functionality
-  ipcMain.handle('get-electron-packaging-info', async () => {
-    return {
-      title: 'Packaging and Distribution',
-      content: 'Electron applications can be packaged for distribution using tools like electron-builder, electron-forge, or electron-packager.',
-      category: 'packaging',
-      tags: ['packaging', 'distribution', 'electron-builder', 'installer']
-    };
-  });
-
-  // Additional handlers can be added here
-};
-
-export { registerElectronPackagingHandlers };
\ No newline at end of file
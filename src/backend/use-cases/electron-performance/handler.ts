@@ -1,18 +0,0 @@
-// Backend use case for Electron performance functionality
-import { ipcMain } from 'electron';
-
-const registerElectronPerformanceHandlers = (): void => {
-  // Register IPC handlers for Electron performance related functionality
-  ipcMain.handle('get-electron-performance-info', async () => {
-    return {
-      title: 'Performance Optimization',
-      content: 'Optimizing Electron apps involves reducing memory usage, improving startup time, and efficient resource management.',
-      category: 'performance',
-      tags: ['performance', 'optimization', 'memory', 'startup-time']
-    };
-  });
-
-  // Additional handlers can be added here
-};
-
-export { registerElectronPerformanceHandlers };
\ No newline at end of file
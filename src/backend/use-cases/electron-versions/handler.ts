@@ -1,18 +0,0 @@
-// Backend use case for Electron versions functionality
-import { ipcMain } from 'electron';
-
-const registerElectronVersionsHandlers = (): void => {
-  // Register IPC handlers for Electron versions related functionality
-  ipcMain.handle('get-electron-versions-info', async () => {
-    return {
-      title: 'Version Management',
-      content: 'Managing Electron versions is important for stability and security. Regularly update to newer versions to get security patches.',
-      category: 'maintenance',
-      tags: ['version', 'updates', 'compatibility', 'maintenance']
-    };
-  });
-
-  // Additional handlers can be added here
-};
-
-export { registerElectronVersionsHandlers };
\ No newline at end of file
@@ -1,10 +0,0 @@
-// Export all backend use-case modules for easy importing
-
-export { registerElectronArchitectureHandlers } from './electron-architecture/handler';
-export { registerElectronDevelopmentHandlers } from './electron-development/handler';
-export { registerElectronIntroHandlers } from './electron-intro/handler';
-export { registerElectronNativeApisHandlers } from './electron-native-apis/handler';
-export { registerElectronPackagingHandlers } from './electron-packaging/handler';
-export { registerElectronPerformanceHandlers } from './electron-performance/handler';
-export { registerElectronSecurityHandlers } from './electron-security/handler';
-export { registerElectronVersionsHandlers } from './electron-versions/handler';
@@ -0,0 +1,17 @@
+import type React from 'react';
+import { api } from '../../shared/api';
+import { ApiContext, ThemeContext } from '../lib/react-hooks/contexts';
+import { theme } from '../styles/redesigned-styles';
+
+interface AppProvidersProps {
+  children: React.ReactNode;
+}
+
+// Context providers of the app; React content of WinBox windows shares them through portals
+const AppProviders: React.FC<AppProvidersProps> = ({ children }) => (
+  <ThemeContext.Provider value={theme}>
+    <ApiContext.Provider value={api}>{children}</ApiContext.Provider>
+  </ThemeContext.Provider>
+);
+
+export default AppProviders;
@@ -0,0 +1,145 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import type { MenuItem } from '../../shared/menu-data';
+import { type CardFilters, CategoryUtils } from '../lib/categories/categories';
+import {
+  DemoButton,
+  TabButton,
+  TabCount,
+  TabFilter,
+  TabSettings,
+  TagChip,
+  TagFilter,
+} from '../styles/redesigned-styles';
+
+interface CategoryFilterProps {
+  // Every card, which the tabs are derived from
+  items: MenuItem[];
+  // Cards matching the search, which are counted
+  matchingItems: MenuItem[];
+  filters: CardFilters;
+  onChange: (filters: CardFilters) => void;
+}
+
+// Category tabs with their card counts, tag filters, and the settings of the tabs
+const CategoryFilter: React.FC<CategoryFilterProps> = ({
+  items,
+  matchingItems,
+  filters,
+  onChange,
+}) => {
+  const [preferences, setPreferences] = useState(CategoryUtils.getPreferences);
+  const [isEditing, setEditing] = useState(false);
+
+  useEffect(() => CategoryUtils.subscribe(setPreferences), []);
+
+  const tabs = CategoryUtils.getTabs(items, preferences);
+  // Tabs count the cards of their category with the selected tags, and tags the other way round
+  const taggedItems = matchingItems.filter((item) =>
+    CategoryUtils.matches(item, filters, 'category')
+  );
+  const categoryCounts = CategoryUtils.countCategories(taggedItems);
+  const tagCounts = CategoryUtils.countTags(
+    matchingItems.filter((item) => CategoryUtils.matches(item, filters, 'tags'))
+  );
+  // Selected tags stay listed, so that they can be cleared
+  const missingTags = filters.tags.filter((tag) => !tagCounts.some((item) => item.tag === tag));
+
+  const report = (error: string | null) => error && console.error(error);
+  const save = (next: typeof preferences) => CategoryUtils.update(next).then(report);
+
+  const toggleTag = (tag: string) => {
+    const tags = filters.tags.includes(tag)
+      ? filters.tags.filter((selected) => selected !== tag)
+      : [...filters.tags, tag];
+    onChange({ ...filters, tags });
+  };
+
+  const renderTab = (id: string, label: string, count: number) => (
+    <TabButton
+      key={id}
+      isActive={filters.category === id}
+      onClick={() => onChange({ ...filters, category: id })}
+      role="tab"
+      aria-selected={filters.category === id}
+    >
+      {label}
+      <TabCount>{count}</TabCount>
+    </TabButton>
+  );
+
+  return (
+    <>
+      <TabFilter role="tablist" aria-label="Feature categories">
+        {renderTab('all', 'All', taggedItems.length)}
+        {tabs
+          // The active tab stays shown, e.g. when opened from a bookmark
+          .filter((tab) => !tab.isHidden || tab.id === filters.category)
+          .map((tab) => renderTab(tab.id, tab.label, categoryCounts.get(tab.id) ?? 0))}
+        <TabButton
+          isActive={isEditing}
+          onClick={() => setEditing(!isEditing)}
+          aria-expanded={isEditing}
+          title="Order and hide tabs"
+        >
+          ⋯
+        </TabButton>
+      </TabFilter>
+
+      {isEditing && (
+        <TabSettings aria-label="Tab settings">
+          {tabs.map((tab, index) => (
+            <li key={tab.id}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={!tab.isHidden}
+                  onChange={(event) =>
+                    save(CategoryUtils.setHidden(tab.id, !event.target.checked))
+                  }
+                />
+                {tab.label}
+              </label>
+              <DemoButton
+                onClick={() => save(CategoryUtils.moveTab(tabs, tab.id, -1))}
+                disabled={index === 0}
+                aria-label={`Move ${tab.label} left`}
+              >
+                ←
+              </DemoButton>
+              <DemoButton
+                onClick={() => save(CategoryUtils.moveTab(tabs, tab.id, 1))}
+                disabled={index === tabs.length - 1}
+                aria-label={`Move ${tab.label} right`}
+              >
+                →
+              </DemoButton>
+            </li>
+          ))}
+          <li>
+            <DemoButton onClick={() => CategoryUtils.reset().then(report)}>Reset</DemoButton>
+          </li>
+        </TabSettings>
+      )}
+
+      <TagFilter aria-label="Tags">
+        {[...missingTags.map((tag) => ({ tag, count: 0 })), ...tagCounts].map(({ tag, count }) => (
+          <TagChip
+            key={tag}
+            isActive={filters.tags.includes(tag)}
+            onClick={() => toggleTag(tag)}
+            aria-pressed={filters.tags.includes(tag)}
+          >
+            #{tag}
+            <TabCount>{count}</TabCount>
+          </TagChip>
+        ))}
+        {filters.tags.length > 0 && (
+          <DemoButton onClick={() => onChange({ ...filters, tags: [] })}>Clear tags</DemoButton>
+        )}
+      </TagFilter>
+    </>
+  );
+};
+
+export default CategoryFilter;
@@ -0,0 +1,206 @@
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type ShortcutAction, formatShortcut, shortcutLabels } from '../../shared/shortcuts';
+import { type Command, CommandUtils } from '../lib/commands/commands';
+import { ReactHooksUtils } from '../lib/react-hooks/hooks';
+import { ShortcutUtils } from '../lib/shortcuts/shortcuts';
+import { windowManager } from '../lib/window-manager';
+import {
+  Palette,
+  PaletteBackdrop,
+  PaletteEmpty,
+  PaletteGroup,
+  PaletteInput,
+  PaletteItem,
+  PaletteList,
+  PaletteShortcut,
+} from '../styles/redesigned-styles';
+
+const focusNext = () => windowManager.cycleFocus(1);
+const focusPrevious = () => windowManager.cycleFocus(-1);
+const closeActive = () => windowManager.closeActive();
+// Clicking an entry keeps the keyboard in the input, which handles every key
+const keepInputFocus = (e: React.MouseEvent) => e.preventDefault();
+
+// Command palette and the global window shortcuts; shortcuts are edited in its settings view
+const CommandPalette: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<'commands' | 'shortcuts'>('commands');
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [shortcuts, setShortcuts] = useState(ShortcutUtils.getBindings());
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => ShortcutUtils.subscribe(setShortcuts), []);
+
+  const toggle = useCallback(() => {
+    setIsOpen((wasOpen) => !wasOpen);
+    setMode('commands');
+    setQuery('');
+    setSelected(0);
+    setRecording(null);
+    setError(null);
+  }, []);
+  const close = () => setIsOpen(false);
+  // Run from the palette after it closed itself, so it reopens on the settings view
+  const openSettings = useCallback(() => {
+    setIsOpen(true);
+    setMode('shortcuts');
+    setSelected(0);
+  }, []);
+
+  ReactHooksUtils.useShortcut(shortcuts['command-palette'], toggle);
+  ReactHooksUtils.useShortcut(shortcuts['command-palette-alt'], toggle);
+  ReactHooksUtils.useShortcut(shortcuts['next-window'], focusNext);
+  ReactHooksUtils.useShortcut(shortcuts['previous-window'], focusPrevious);
+  ReactHooksUtils.useShortcut(shortcuts['close-window'], closeActive);
+
+  // Rebuilt on open, so that the window list is current
+  const commands = useMemo(
+    () => (isOpen ? CommandUtils.getCommands(shortcuts, openSettings) : []),
+    [isOpen, shortcuts, openSettings]
+  );
+  const results = useMemo(() => CommandUtils.search(commands, query), [commands, query]);
+  const actions = Object.keys(shortcutLabels) as ShortcutAction[];
+  const itemCount = mode === 'commands' ? results.length : actions.length + 1;
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  const runCommand = (command: Command) => {
+    close();
+    command.run();
+  };
+
+  const chooseShortcut = (index: number) => {
+    if (index < actions.length) {
+      setRecording(actions[index]);
+      setError(null);
+    } else {
+      ShortcutUtils.reset();
+    }
+  };
+
+  const recordShortcut = (e: React.KeyboardEvent) => {
+    // Keep the key press away from the global shortcuts
+    e.preventDefault();
+    e.stopPropagation();
+    if (!recording) return;
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+
+    const shortcut = formatShortcut(e);
+    if (!shortcut) return;
+    const action = recording;
+    setRecording(null);
+    ShortcutUtils.update({ [action]: shortcut }).then(setError);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (recording) {
+      recordShortcut(e);
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      if (mode === 'shortcuts') setMode('commands');
+      else close();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected((index) => (index + step + itemCount) % Math.max(itemCount, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (mode === 'commands' && results[selected]) runCommand(results[selected]);
+      if (mode === 'shortcuts') chooseShortcut(selected);
+    }
+  };
+
+  return (
+    <PaletteBackdrop onMouseDown={close}>
+      <Palette
+        role="dialog"
+        aria-label="Command palette"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <PaletteInput
+          autoFocus
+          value={mode === 'commands' ? query : ''}
+          readOnly={mode === 'shortcuts'}
+          placeholder={
+            mode === 'commands'
+              ? 'Search topics, windows and actions…'
+              : recording
+                ? `Press the new shortcut for "${shortcutLabels[recording]}", Escape to cancel`
+                : 'Choose a shortcut to change, Escape to go back'
+          }
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+        />
+        {mode === 'shortcuts' && error && <PaletteEmpty>{error}</PaletteEmpty>}
+        {mode === 'commands' ? (
+          results.length === 0 ? (
+            <PaletteEmpty>No matching commands</PaletteEmpty>
+          ) : (
+            <PaletteList ref={listRef} role="listbox" onMouseDown={keepInputFocus}>
+              {results.map((command, i) => (
+                <PaletteItem
+                  key={command.id}
+                  role="option"
+                  aria-selected={i === selected}
+                  isSelected={i === selected}
+                  onMouseEnter={() => setSelected(i)}
+                  onClick={() => runCommand(command)}
+                >
+                  <PaletteGroup>{command.group}</PaletteGroup>
+                  {command.title}
+                  {command.shortcut && <PaletteShortcut>{command.shortcut}</PaletteShortcut>}
+                </PaletteItem>
+              ))}
+            </PaletteList>
+          )
+        ) : (
+          <PaletteList ref={listRef} role="listbox" onMouseDown={keepInputFocus}>
+            {actions.map((action, i) => (
+              <PaletteItem
+                key={action}
+                role="option"
+                aria-selected={i === selected}
+                isSelected={i === selected}
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => chooseShortcut(i)}
+              >
+                {shortcutLabels[action]}
+                <PaletteShortcut>
+                  {recording === action ? 'Press keys…' : shortcuts[action]}
+                </PaletteShortcut>
+              </PaletteItem>
+            ))}
+            <PaletteItem
+              role="option"
+              aria-selected={selected === actions.length}
+              isSelected={selected === actions.length}
+              onMouseEnter={() => setSelected(actions.length)}
+              onClick={() => chooseShortcut(actions.length)}
+            >
+              Reset to defaults
+            </PaletteItem>
+          </PaletteList>
+        )}
+      </Palette>
+    </PaletteBackdrop>
+  );
+};
+
+export default CommandPalette;
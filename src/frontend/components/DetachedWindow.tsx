@@ -0,0 +1,74 @@
+import type React from 'react';
+import { isValidElement, type ReactElement, useEffect, useRef, useState } from 'react';
+import type { DetachedWindowInfo } from '../../shared/ipc-channels';
+import { ContentHostUtils } from '../lib/content-host/content-host';
+import { DetachedWindowUtils } from '../lib/detached-windows/detached-windows';
+import { UseCaseUtils } from '../lib/use-cases/use-cases';
+import {
+  DetachedBody,
+  DetachedContainer,
+  DetachedHeader,
+  DockButton,
+  SidebarTitle,
+} from '../styles/redesigned-styles';
+
+interface DetachedWindowProps {
+  info: DetachedWindowInfo;
+}
+
+// Root of a native window created by "pop out": shows one use case and can dock it back
+const DetachedWindow: React.FC<DetachedWindowProps> = ({ info }) => {
+  const [content, setContent] = useState<string | ReactElement | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // The same content as the WinBox window, React demos included
+  useEffect(() => {
+    document.title = info.title;
+    let isCurrent = true;
+    UseCaseUtils.getContent(info.useCaseId)
+      .then((next) => isCurrent && setContent(next))
+      .catch((error) => {
+        console.error('Failed to load detached window content:', error);
+        if (isCurrent) setContent('<p>Failed to load content.</p>');
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [info]);
+
+  // Sanitized and isolated from this window's shell, as in WinBox windows
+  useEffect(() => {
+    if (typeof content !== 'string' || !contentRef.current) return;
+    return ContentHostUtils.mount(contentRef.current, content);
+  }, [content]);
+
+  return (
+    <DetachedContainer>
+      <DetachedHeader>
+        <SidebarTitle>{info.title}</SidebarTitle>
+        <DockButton
+          onClick={() => DetachedWindowUtils.dock(info.id)}
+          title="Return this window to the desktop"
+        >
+          Dock back
+        </DockButton>
+      </DetachedHeader>
+      <DetachedBody>
+        <div className="winbox-content">
+          <h3>{info.title}</h3>
+          {content === null ? (
+            <div className="winbox-loading" aria-busy="true">
+              Loading content...
+            </div>
+          ) : isValidElement(content) ? (
+            content
+          ) : (
+            <div ref={contentRef} />
+          )}
+        </div>
+      </DetachedBody>
+    </DetachedContainer>
+  );
+};
+
+export default DetachedWindow;
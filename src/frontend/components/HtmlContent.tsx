@@ -0,0 +1,41 @@
+import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { type ContentIsolation, ContentHostUtils } from '../lib/content-host/content-host';
+
+interface HtmlContentProps {
+  // Loaded content shows a loading state until it resolves
+  html: string | Promise<string>;
+  isolation?: ContentIsolation;
+}
+
+// HTML inside React content of a window, sanitized and isolated like plain window content
+const HtmlContent: React.FC<HtmlContentProps> = ({ html, isolation }) => {
+  const [loaded, setLoaded] = useState<string | null>(typeof html === 'string' ? html : null);
+  const hostRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    Promise.resolve(html).then(
+      (value) => isCurrent && setLoaded(value),
+      () => isCurrent && setLoaded('<p>Failed to load content.</p>')
+    );
+    return () => {
+      isCurrent = false;
+    };
+  }, [html]);
+
+  useEffect(() => {
+    if (loaded === null || !hostRef.current) return;
+    return ContentHostUtils.mount(hostRef.current, loaded, isolation);
+  }, [loaded, isolation]);
+
+  return loaded === null ? (
+    <div className="winbox-loading" aria-busy="true">
+      Loading content...
+    </div>
+  ) : (
+    <div ref={hostRef} />
+  );
+};
+
+export default HtmlContent;
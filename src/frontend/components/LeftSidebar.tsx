@@ -1,6 +1,13 @@
 import type React from 'react';
 import { useEffect, useState } from 'react';
-import { type WindowRecord, windowManager } from '../lib/window-manager';
+import { api } from '../../shared/api';
+import type { DetachedWindowInfo, WorkspaceState } from '../../shared/ipc-channels';
+import type { ShortcutAction } from '../../shared/shortcuts';
+import { DetachedWindowUtils } from '../lib/detached-windows/detached-windows';
+import { ReactHooksUtils } from '../lib/react-hooks/hooks';
+import { ShortcutUtils } from '../lib/shortcuts/shortcuts';
+import { type LayoutMode, type WindowRecord, windowManager } from '../lib/window-manager';
+import { WorkspaceUtils } from '../lib/workspace/workspace';
 import {
   Sidebar,
   SidebarHeader,
@@ -17,25 +24,132 @@ import {
   WindowIcon,
   WindowTitle,
   WindowClose,
+  WindowAction,
+  WindowSectionTitle,
+  DropHint,
+  WindowGroup,
+  WindowGroupTitle,
+  WindowGroupList,
+  SidebarFooter,
+  SidebarOption,
+  LayoutBar,
+  LayoutButton,
+  WorkspaceBar,
+  WorkspaceSelect,
+  WorkspaceInput,
 } from '../styles/redesigned-styles';
+import WindowPreview from './WindowPreview';
 
 interface LeftSidebarProps {
   isOpen: boolean;
 }
 
+// Layouts offered in the sidebar, also applied with configurable shortcuts
+const layouts: { mode: LayoutMode; icon: string; label: string; action: ShortcutAction }[] = [
+  { mode: 'split', icon: '◧', label: 'Split left/right', action: 'layout-split' },
+  { mode: 'grid', icon: '⊞', label: 'Grid', action: 'layout-grid' },
+  { mode: 'cascade', icon: '❐', label: 'Cascade', action: 'layout-cascade' },
+];
+
+const applySplit = () => windowManager.applyLayout('split');
+const applyGrid = () => windowManager.applyLayout('grid');
+const applyCascade = () => windowManager.applyLayout('cascade');
+
+// Groups instances of the same topic, in the order each topic was first opened
+const groupByTopic = (records: WindowRecord[]): WindowRecord[][] => {
+  const groups: Map<string, WindowRecord[]> = new Map();
+  records.forEach((record) => {
+    const key = record.useCaseId ?? record.id;
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return Array.from(groups.values());
+};
+
+// Position in the window list for a window dropped on another one, or why it cannot be
+// dropped there. The sidebar shows the list grouped by topic, so the drop is placed in
+// that order: a window dropped on another topic's group goes before or after the group.
+const getDropIndex = (
+  records: WindowRecord[],
+  draggedId: string,
+  targetId: string
+): number | string => {
+  const groups = groupByTopic(records);
+  const shown = groups.flat();
+  const from = shown.findIndex((record) => record.id === draggedId);
+  let to = shown.findIndex((record) => record.id === targetId);
+  if (from === -1 || to === -1) return 'This window has been closed';
+
+  const dragged = shown[from];
+  const group = groups.find((candidate) => candidate.includes(shown[to])) ?? [];
+  if (!group.includes(dragged)) {
+    to = shown.indexOf(from < to ? group[group.length - 1] : group[0]);
+  }
+  if (dragged.isPinned !== shown[to].isPinned) {
+    return dragged.isPinned
+      ? 'Pinned windows stay above the others: unpin this one to move it there'
+      : 'Pinned windows stay above the others: pin this one to move it there';
+  }
+
+  const next = [...shown];
+  next.splice(to, 0, ...next.splice(from, 1));
+  // The list itself is not grouped and keeps pinned windows first: find the position in
+  // it that shows the window at its new place, as WindowManager.move would store it
+  const others = records.filter((record) => record !== dragged);
+  for (let index = 0; index < records.length; index++) {
+    const moved = [...others.slice(0, index), dragged, ...others.slice(index)];
+    const list = [
+      ...moved.filter((record) => record.isPinned),
+      ...moved.filter((record) => !record.isPinned),
+    ];
+    if (groupByTopic(list).flat().every((record, i) => record === next[i])) return index;
+  }
+  return 'Windows of the same topic stay together: move this one within its group';
+};
+
 const LeftSidebar: React.FC<LeftSidebarProps> = ({ isOpen }) => {
   const [windows, setWindows] = useState<WindowRecord[]>([]);
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [restoreOnLaunch, setRestoreOnLaunch] = useState(false);
+  const [detachedWindows, setDetachedWindows] = useState<DetachedWindowInfo[]>([]);
+  const [workspaces, setWorkspaces] = useState<WorkspaceState | null>(null);
+  // Inline name field, since Electron does not implement window.prompt
+  const [editing, setEditing] = useState<'create' | 'rename' | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [shortcuts, setShortcuts] = useState(ShortcutUtils.getBindings());
+  const [preview, setPreview] = useState<{ record: WindowRecord; top: number } | null>(null);
+  // Window being dragged to a new position, and the window it would be dropped on
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
   useEffect(() => {
     const unsubscribe = windowManager.subscribe((records) => {
       setWindows(records);
       const active = records.find((r) => r.isActive);
       setActiveId(active?.id || null);
+      // Closed windows lose their preview, also when the pointer never left them
+      setPreview((shown) => (shown && records.includes(shown.record) ? shown : null));
     });
     return unsubscribe;
   }, []);
 
+  useEffect(() => DetachedWindowUtils.subscribe(setDetachedWindows), []);
+
+  useEffect(() => ShortcutUtils.subscribe(setShortcuts), []);
+
+  useEffect(() => {
+    return WorkspaceUtils.subscribe((state) => {
+      setWorkspaces(state);
+      setRestoreOnLaunch(state.restoreOnLaunch);
+    });
+  }, []);
+
+  // Timers are throttled while the system sleeps; resync with the real window state on wake
+  ReactHooksUtils.useIpcEvent('system-resume', () => {
+    const records = windowManager.getWindows();
+    setWindows(records);
+    setActiveId(records.find((r) => r.isActive)?.id || null);
+  });
+
   const handleWindowClick = (id: string) => {
     windowManager.toggle(id);
   };
@@ -45,51 +159,272 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({ isOpen }) => {
     windowManager.close(id);
   };
 
+  const handlePopOut = (e: React.MouseEvent, record: WindowRecord) => {
+    e.stopPropagation();
+    DetachedWindowUtils.popOut(record);
+  };
+
+  const handlePin = (e: React.MouseEvent, record: WindowRecord) => {
+    e.stopPropagation();
+    windowManager.setPinned(record.id, !record.isPinned);
+  };
+
+  const handleDragStart = (e: React.DragEvent, id: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedId(id);
+    setPreview(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, id: string) => {
+    if (!draggedId) return;
+    setDropTargetId(id);
+    // Rejected drops keep the not-allowed cursor, and the sidebar says why
+    if (typeof getDropIndex(windows, draggedId, id) === 'number') {
+      e.preventDefault();
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, id: string) => {
+    e.preventDefault();
+    const index = draggedId && getDropIndex(windows, draggedId, id);
+    if (draggedId && typeof index === 'number') {
+      windowManager.move(draggedId, index);
+    }
+    handleDragEnd();
+  };
+
+  const showPreview = (e: React.MouseEvent<HTMLElement>, record: WindowRecord) => {
+    if (!draggedId) {
+      setPreview({ record, top: e.currentTarget.getBoundingClientRect().top });
+    }
+  };
+
+  const handleDock = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    DetachedWindowUtils.dock(id);
+  };
+
   const handleMinimizeAll = () => {
     windowManager.minimizeAll();
   };
 
+  ReactHooksUtils.useShortcut(shortcuts['layout-split'], applySplit);
+  ReactHooksUtils.useShortcut(shortcuts['layout-grid'], applyGrid);
+  ReactHooksUtils.useShortcut(shortcuts['layout-cascade'], applyCascade);
+
+  const handleRestoreOnLaunch = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked;
+    setRestoreOnLaunch(enabled);
+    WorkspaceUtils.setRestoreOnLaunch(enabled);
+  };
+
+  const activeWorkspace = workspaces?.workspaces.find((w) => w.id === workspaces.activeId);
+
+  const startEditing = (mode: 'create' | 'rename') => {
+    setEditing(mode);
+    setDraftName(mode === 'rename' ? activeWorkspace?.name || '' : '');
+  };
+
+  const submitName = () => {
+    const name = draftName.trim();
+    if (name && editing === 'create') {
+      WorkspaceUtils.create(name);
+    } else if (name && editing === 'rename' && activeWorkspace) {
+      WorkspaceUtils.rename(activeWorkspace.id, name);
+    }
+    setEditing(null);
+  };
+
+  const handleNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') submitName();
+    if (e.key === 'Escape') setEditing(null);
+  };
+
+  const handleDeleteWorkspace = () => {
+    if (activeWorkspace && window.confirm(`Delete workspace "${activeWorkspace.name}"?`)) {
+      WorkspaceUtils.remove(activeWorkspace.id);
+    }
+  };
+
+  const drop = draggedId && dropTargetId && getDropIndex(windows, draggedId, dropTargetId);
+
+  const renderWindow = (record: WindowRecord, label: string) => (
+    <WindowItem
+      key={record.id}
+      isActive={activeId === record.id}
+      isMinimized={record.isMinimized}
+      isDropTarget={
+        dropTargetId === record.id && draggedId !== record.id && typeof drop === 'number'
+      }
+      draggable
+      onClick={() => handleWindowClick(record.id)}
+      onMouseEnter={(e) => showPreview(e, record)}
+      onMouseLeave={() => setPreview(null)}
+      onDragStart={(e) => handleDragStart(e, record.id)}
+      onDragOver={(e) => handleDragOver(e, record.id)}
+      onDrop={(e) => handleDrop(e, record.id)}
+      onDragEnd={handleDragEnd}
+    >
+      <WindowIcon>{record.isMinimized ? '◱' : '■'}</WindowIcon>
+      <WindowTitle>{label}</WindowTitle>
+      <WindowAction
+        onClick={(e) => handlePin(e, record)}
+        title={record.isPinned ? 'Unpin' : 'Pin to the top'}
+        aria-pressed={record.isPinned}
+      >
+        {record.isPinned ? '★' : '☆'}
+      </WindowAction>
+      {DetachedWindowUtils.canPopOut(record) && (
+        <WindowAction onClick={(e) => handlePopOut(e, record)} title="Pop out into its own window">
+          ⇱
+        </WindowAction>
+      )}
+      <WindowClose onClick={(e) => handleClose(e, record.id)} title="Close">
+        ×
+      </WindowClose>
+    </WindowItem>
+  );
+
   return (
     <>
       <Sidebar isOpen={isOpen}>
         <SidebarHeader>
           <SidebarTitle>Windows</SidebarTitle>
-          <WindowCount>{windows.length}</WindowCount>
+          <WindowCount>{windows.length + detachedWindows.length}</WindowCount>
         </SidebarHeader>
         <SidebarHome>
           <HomeButton onClick={handleMinimizeAll} title="Go Home">
             <HomeIcon>⌂</HomeIcon>
             <HomeText>Home</HomeText>
           </HomeButton>
+          <LayoutBar>
+            {layouts.map(({ mode, icon, label, action }) => (
+              <LayoutButton
+                key={mode}
+                onClick={() => windowManager.applyLayout(mode)}
+                title={`${label} (${shortcuts[action]})`}
+                aria-label={label}
+              >
+                {icon}
+              </LayoutButton>
+            ))}
+          </LayoutBar>
         </SidebarHome>
         <SidebarContent>
-          {windows.length === 0 ? (
+          {windows.length === 0 && detachedWindows.length === 0 ? (
             <NoWindows>No open windows</NoWindows>
           ) : (
             <WindowList>
-              {windows.map((record) => (
+              {typeof drop === 'string' && <DropHint role="status">{drop}</DropHint>}
+              {groupByTopic(windows).map((group) =>
+                group.length === 1 ? (
+                  renderWindow(group[0], group[0].title)
+                ) : (
+                  <WindowGroup key={group[0].useCaseId}>
+                    <WindowGroupTitle>
+                      {group[0].title}
+                      <WindowCount>{group.length}</WindowCount>
+                    </WindowGroupTitle>
+                    <WindowGroupList>
+                      {group.map((record, i) => renderWindow(record, `${record.title} #${i + 1}`))}
+                    </WindowGroupList>
+                  </WindowGroup>
+                )
+              )}
+              {detachedWindows.length > 0 && (
+                <WindowSectionTitle>Detached</WindowSectionTitle>
+              )}
+              {detachedWindows.map((detached) => (
                 <WindowItem
-                  key={record.id}
-                  isActive={activeId === record.id}
-                  isMinimized={record.isMinimized}
-                  onClick={() => handleWindowClick(record.id)}
+                  key={detached.id}
+                  isActive={false}
+                  isMinimized={false}
+                  onClick={() => DetachedWindowUtils.focus(detached.id)}
                 >
-                  <WindowIcon>{record.isMinimized ? '◱' : '■'}</WindowIcon>
-                  <WindowTitle title={record.title}>
-                    {record.title}
+                  <WindowIcon>⧉</WindowIcon>
+                  <WindowTitle title={detached.title}>
+                    {detached.title}
                   </WindowTitle>
-                  <WindowClose
-                    onClick={(e) => handleClose(e, record.id)}
-                    title="Close"
+                  <WindowAction
+                    onClick={(e) => handleDock(e, detached.id)}
+                    title="Dock back to the desktop"
                   >
-                    ×
-                  </WindowClose>
+                    ⇲
+                  </WindowAction>
                 </WindowItem>
               ))}
             </WindowList>
           )}
         </SidebarContent>
+        {/* Workspaces are persisted by the main process, so the option only exists in Electron */}
+        {api.isAvailable() && (
+          <SidebarFooter>
+            {workspaces && (
+              <WorkspaceBar>
+                {editing ? (
+                  <WorkspaceInput
+                    autoFocus
+                    value={draftName}
+                    placeholder="Workspace name"
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={handleNameKeyDown}
+                    onBlur={() => setEditing(null)}
+                  />
+                ) : (
+                  <WorkspaceSelect
+                    value={workspaces.activeId}
+                    onChange={(e) => WorkspaceUtils.switchTo(e.target.value)}
+                    aria-label="Workspace"
+                  >
+                    {workspaces.workspaces.map((workspace) => (
+                      <option key={workspace.id} value={workspace.id}>
+                        {workspace.name}
+                      </option>
+                    ))}
+                  </WorkspaceSelect>
+                )}
+                <LayoutButton onClick={() => startEditing('create')} title="New workspace">
+                  +
+                </LayoutButton>
+                <LayoutButton onClick={() => startEditing('rename')} title="Rename workspace">
+                  ✎
+                </LayoutButton>
+                <LayoutButton
+                  onClick={handleDeleteWorkspace}
+                  disabled={workspaces.workspaces.length < 2}
+                  title="Delete workspace"
+                >
+                  ×
+                </LayoutButton>
+              </WorkspaceBar>
+            )}
+            {workspaces && (
+              <WorkspaceBar>
+                <LayoutButton onClick={() => WorkspaceUtils.exportAll()} title="Export workspaces">
+                  Export
+                </LayoutButton>
+                <LayoutButton onClick={() => WorkspaceUtils.importFile()} title="Import workspaces">
+                  Import
+                </LayoutButton>
+              </WorkspaceBar>
+            )}
+            <SidebarOption>
+              <input
+                type="checkbox"
+                checked={restoreOnLaunch}
+                onChange={handleRestoreOnLaunch}
+              />
+              Restore windows on launch
+            </SidebarOption>
+          </SidebarFooter>
+        )}
       </Sidebar>
+      {preview && <WindowPreview record={preview.record} top={preview.top} />}
     </>
   );
 };
@@ -0,0 +1,154 @@
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { ReactHooksUtils } from '../lib/react-hooks/hooks';
+import { UserTopicUtils } from '../lib/user-topics/user-topics';
+import {
+  DemoActions,
+  DemoButton,
+  EditorForm,
+  EditorLayout,
+  EditorMarkdown,
+  EditorPreview,
+  EditorStatus,
+} from '../styles/redesigned-styles';
+import HtmlContent from './HtmlContent';
+
+interface TopicEditorProps {
+  // Topic to edit; without one, a new topic is created on the first save
+  topicId?: string;
+  // Called with the id of a new topic once its first save created it
+  onCreated?: (id: string) => void;
+  // Called after the topic was deleted, e.g. to close the window
+  onDeleted?: () => void;
+}
+
+// Tags are edited as one comma-separated field
+interface Draft {
+  title: string;
+  category: string;
+  tags: string;
+  markdown: string;
+}
+
+const previewDelayMs = 150;
+
+const parseTags = (tags: string) =>
+  tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+// Editor of a user topic: front-matter fields and Markdown, with a live preview
+const TopicEditor: React.FC<TopicEditorProps> = ({ topicId, onCreated, onDeleted }) => {
+  const [id, setId] = useState<string | null>(topicId ?? null);
+  const [draft, setDraft] = useState<Draft>(() => {
+    const topic = topicId ? UserTopicUtils.getTopic(topicId) : undefined;
+    return {
+      title: topic?.title ?? '',
+      category: topic?.category ?? 'notes',
+      tags: topic?.tags.join(', ') ?? '',
+      markdown: topic?.markdown ?? '',
+    };
+  });
+  const [isDirty, setDirty] = useState(false);
+  const [isSaving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const previewDraft = ReactHooksUtils.useDebounce(draft, previewDelayMs);
+  const previewHtml = useMemo(
+    () =>
+      UserTopicUtils.render({
+        ...previewDraft,
+        tags: parseTags(previewDraft.tags),
+      }),
+    [previewDraft]
+  );
+
+  const update = (field: keyof Draft) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft({ ...draft, [field]: event.target.value });
+    setDirty(true);
+  };
+
+  const save = async () => {
+    if (isSaving) return;
+    setSaving(true);
+    try {
+      const topic = await UserTopicUtils.save(id, { ...draft, tags: parseTags(draft.tags) });
+      setId(topic.id);
+      if (!id) onCreated?.(topic.id);
+      setDirty(false);
+      setStatus('Saved');
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to save the topic');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!id || !window.confirm(`Delete "${draft.title || 'Untitled'}"?`)) return;
+    try {
+      await UserTopicUtils.remove(id);
+      onDeleted?.();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to delete the topic');
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+      event.preventDefault();
+      save();
+    }
+  };
+
+  return (
+    <EditorLayout>
+      <EditorForm
+        onSubmit={(event) => {
+          event.preventDefault();
+          save();
+        }}
+        onKeyDown={handleKeyDown}
+      >
+        <label>
+          Title
+          <input value={draft.title} onChange={update('title')} placeholder="Untitled" />
+        </label>
+        <label>
+          Category
+          <input value={draft.category} onChange={update('category')} />
+        </label>
+        <label>
+          Tags
+          <input value={draft.tags} onChange={update('tags')} placeholder="ipc, release" />
+        </label>
+        <EditorMarkdown
+          value={draft.markdown}
+          onChange={(event) => {
+            setDraft({ ...draft, markdown: event.target.value });
+            setDirty(true);
+          }}
+          placeholder="Write Markdown: ## headings, - lists, **bold**, `code`, [links](https://…)"
+          aria-label="Markdown"
+        />
+        <DemoActions>
+          <DemoButton type="submit" disabled={isSaving}>
+            {id ? 'Save' : 'Create'}
+          </DemoButton>
+          {id && (
+            <DemoButton type="button" onClick={remove}>
+              Delete
+            </DemoButton>
+          )}
+          <EditorStatus>{isDirty ? 'Unsaved changes' : status}</EditorStatus>
+        </DemoActions>
+      </EditorForm>
+      <EditorPreview aria-label="Preview">
+        <HtmlContent html={previewHtml} isolation="iframe" />
+      </EditorPreview>
+    </EditorLayout>
+  );
+};
+
+export default TopicEditor;
@@ -0,0 +1,38 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { HelperUtils } from '../lib/helpers/helpers';
+import { UserTopicUtils } from '../lib/user-topics/user-topics';
+import { DemoActions, DemoButton, EditorStatus } from '../styles/redesigned-styles';
+import HtmlContent from './HtmlContent';
+
+interface UserTopicViewProps {
+  topicId: string;
+  onEdit: () => void;
+}
+
+// Read view of a user topic, updated when the topic is saved from an editor
+const UserTopicView: React.FC<UserTopicViewProps> = ({ topicId, onEdit }) => {
+  const [topic, setTopic] = useState(() => UserTopicUtils.getTopic(topicId));
+
+  useEffect(
+    () => UserTopicUtils.subscribe(() => setTopic(UserTopicUtils.getTopic(topicId))),
+    [topicId]
+  );
+
+  if (!topic) {
+    return <EditorStatus>This topic was deleted.</EditorStatus>;
+  }
+
+  return (
+    <>
+      <DemoActions>
+        <DemoButton onClick={onEdit}>Edit</DemoButton>
+        <EditorStatus>Updated {HelperUtils.formatRelativeTime(topic.updatedAt)}</EditorStatus>
+      </DemoActions>
+      {/* User-written, so rendered in a sandboxed frame rather than the app's origin */}
+      <HtmlContent html={UserTopicUtils.render(topic)} isolation="iframe" />
+    </>
+  );
+};
+
+export default UserTopicView;
@@ -0,0 +1,20 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { WindowPortalUtils } from '../lib/window-portals/window-portals';
+
+// Renders the React content of every WinBox window; mounted once inside AppProviders
+const WindowPortalHost: React.FC = () => {
+  const [portals, setPortals] = useState(WindowPortalUtils.getPortals);
+
+  useEffect(() => {
+    const unsubscribe = WindowPortalUtils.subscribe(setPortals);
+    // Windows may have opened before this effect ran
+    setPortals(WindowPortalUtils.getPortals());
+    return unsubscribe;
+  }, []);
+
+  return <>{portals.map(({ id, container, element }) => createPortal(element, container, id))}</>;
+};
+
+export default WindowPortalHost;
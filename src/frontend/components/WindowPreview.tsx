@@ -0,0 +1,51 @@
+import type React from 'react';
+import { useEffect, useRef } from 'react';
+import type { WindowRecord } from '../lib/window-manager';
+import { PreviewFrame, PreviewTitle, WindowPreviewBox } from '../styles/redesigned-styles';
+
+interface WindowPreviewProps {
+  record: WindowRecord;
+  // Top edge of the hovered sidebar item, in viewport pixels
+  top: number;
+}
+
+const previewWidth = 240;
+
+// Scaled copy of a window body, taken when the preview opens so that it shows
+// the current content, also of minimized windows
+const WindowPreview: React.FC<WindowPreviewProps> = ({ record, top }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    const body: HTMLElement | undefined = record.winbox.body;
+    if (!frame || !body) return;
+
+    // A minimized body has no layout, so scale by the window size instead
+    const width = record.winbox.width || body.clientWidth || previewWidth;
+    const height = record.winbox.height || body.clientHeight || previewWidth;
+    const scale = previewWidth / width;
+
+    const copy = body.cloneNode(true) as HTMLElement;
+    Object.assign(copy.style, {
+      position: 'absolute',
+      inset: '0 auto auto 0',
+      width: `${width}px`,
+      height: `${height}px`,
+      transform: `scale(${scale})`,
+      transformOrigin: 'top left',
+      pointerEvents: 'none',
+    });
+    frame.style.height = `${Math.min(height * scale, previewWidth)}px`;
+    frame.replaceChildren(copy);
+  }, [record]);
+
+  return (
+    <WindowPreviewBox style={{ top }} aria-hidden="true">
+      <PreviewTitle>{record.title}</PreviewTitle>
+      <PreviewFrame ref={frameRef} style={{ width: previewWidth }} />
+    </WindowPreviewBox>
+  );
+};
+
+export default WindowPreview;
@@ -1,2 +1,10 @@
 // Export all component modules for easy importing
-export { default as ElectronDemoPreview } from './ElectronDemoPreview';
\ No newline at end of file
+export { default as ElectronDemoPreview } from './ElectronDemoPreview';
+export { default as DetachedWindow } from './DetachedWindow';
+export { default as CommandPalette } from './CommandPalette';
+export { default as AppProviders } from './AppProviders';
+export { default as HtmlContent } from './HtmlContent';
+export { default as WindowPortalHost } from './WindowPortalHost';
+export { default as TopicEditor } from './TopicEditor';
+export { default as UserTopicView } from './UserTopicView';
+export { default as CategoryFilter } from './CategoryFilter';
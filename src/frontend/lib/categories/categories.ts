@@ -0,0 +1,239 @@
+import { api } from '../../../shared/api';
+import type { CategoryPreferences } from '../../../shared/ipc-channels';
+import type { MenuItem } from '../../../shared/menu-data';
+
+/**
+ * Tab of the card list
+ */
+export interface CategoryTab {
+  id: string;
+  label: string;
+  isHidden: boolean;
+}
+
+/**
+ * Filters of the card list, kept in the URL hash
+ */
+export interface CardFilters {
+  // Category id, or 'all'
+  category: string;
+  // Cards must have every one of these tags
+  tags: string[];
+}
+
+/**
+ * Category tabs derived from the cards, with their order and visibility stored in
+ * the main-process config. Outside Electron changes last until reload.
+ */
+export namespace CategoryUtils {
+  const defaultPreferences: CategoryPreferences = { order: [], hidden: [] };
+  // Labels that are not the capitalized category id
+  const labels: Record<string, string> = { api: 'APIs', development: 'Dev' };
+  let preferences: CategoryPreferences = defaultPreferences;
+  let loading: Promise<CategoryPreferences> | null = null;
+  const listeners: Set<(preferences: CategoryPreferences) => void> = new Set();
+
+  function setPreferences(next: CategoryPreferences): CategoryPreferences {
+    preferences = next;
+    listeners.forEach((listener) => listener(preferences));
+    return preferences;
+  }
+
+  /**
+   * Loads the preferences once per page load
+   * @returns Tab order and hidden categories
+   */
+  export function load(): Promise<CategoryPreferences> {
+    loading ??= api.call('get-category-preferences').then((result) =>
+      result.success && result.data ? setPreferences(result.data) : preferences
+    );
+    return loading;
+  }
+
+  /**
+   * Gets the current preferences, the defaults until they are loaded
+   */
+  export function getPreferences(): CategoryPreferences {
+    return preferences;
+  }
+
+  /**
+   * Subscribes to preference changes, loading them on first use
+   * @param callback - Called with the tab order and hidden categories
+   * @returns Function that unsubscribes
+   */
+  export function subscribe(callback: (preferences: CategoryPreferences) => void): () => void {
+    listeners.add(callback);
+    load();
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Saves the preferences
+   * @param next - Tab order and hidden categories
+   * @returns Error message, or null if saved
+   */
+  export async function update(next: CategoryPreferences): Promise<string | null> {
+    if (!api.isAvailable()) {
+      setPreferences(next);
+      return null;
+    }
+
+    const result = await api.call('set-category-preferences', next);
+    if (!result.success || !result.data) return result.error || 'Failed to save the tabs';
+
+    setPreferences(result.data);
+    return null;
+  }
+
+  /**
+   * Restores the default tab order and shows every category
+   */
+  export function reset(): Promise<string | null> {
+    return update(defaultPreferences);
+  }
+
+  /**
+   * Gets the label of a category
+   * @param id - Category id
+   * @returns Label of its tab
+   */
+  export function getLabel(id: string): string {
+    return labels[id] ?? id.charAt(0).toUpperCase() + id.slice(1);
+  }
+
+  /**
+   * Lists the categories of the cards as tabs: first in the stored order, then
+   * the others in the order of their first card
+   * @param items - Every card
+   * @param current - Tab order and hidden categories
+   * @returns Tabs, hidden ones included
+   */
+  export function getTabs(items: MenuItem[], current: CategoryPreferences): CategoryTab[] {
+    const ids = new Set(items.map((item) => item.category));
+    const ordered = [...new Set([...current.order.filter((id) => ids.has(id)), ...ids])];
+    return ordered.map((id) => ({
+      id,
+      label: getLabel(id),
+      isHidden: current.hidden.includes(id),
+    }));
+  }
+
+  /**
+   * Moves a tab, storing the order of every tab
+   * @param tabs - Tabs in their current order
+   * @param id - Category of the moved tab
+   * @param offset - Positions to move, negative towards the start
+   * @returns New preferences
+   */
+  export function moveTab(tabs: CategoryTab[], id: string, offset: number): CategoryPreferences {
+    const order = tabs.map((tab) => tab.id);
+    const from = order.indexOf(id);
+    const to = Math.min(Math.max(from + offset, 0), order.length - 1);
+    if (from !== -1) {
+      order.splice(to, 0, ...order.splice(from, 1));
+    }
+    return { ...preferences, order };
+  }
+
+  /**
+   * Shows or hides a tab
+   * @param id - Category id
+   * @param isHidden - Whether the tab is hidden
+   * @returns New preferences
+   */
+  export function setHidden(id: string, isHidden: boolean): CategoryPreferences {
+    const hidden = preferences.hidden.filter((category) => category !== id);
+    return { ...preferences, hidden: isHidden ? [...hidden, id] : hidden };
+  }
+
+  /**
+   * Counts the cards of each category
+   * @param items - Cards
+   * @returns Number of cards by category id
+   */
+  export function countCategories(items: MenuItem[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    items.forEach((item) => counts.set(item.category, (counts.get(item.category) ?? 0) + 1));
+    return counts;
+  }
+
+  /**
+   * Counts the cards of each tag
+   * @param items - Cards
+   * @returns Tags with their number of cards, the most used first
+   */
+  export function countTags(items: MenuItem[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    items.forEach((item) => {
+      new Set(item.tags).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Checks a card against the filters
+   * @param item - Card
+   * @param filters - Category and tags
+   * @param ignore - Filter to leave out, e.g. to count the cards of every tag
+   * @returns Whether the card is listed
+   */
+  export function matches(
+    item: MenuItem,
+    filters: CardFilters,
+    ignore?: keyof CardFilters
+  ): boolean {
+    const { category, tags } = filters;
+    return (
+      (ignore === 'category' || category === 'all' || item.category === category) &&
+      (ignore === 'tags' || tags.every((tag) => item.tags.includes(tag)))
+    );
+  }
+
+  /**
+   * Falls back to every card when the filters name a category that no card has,
+   * e.g. in an old bookmark. Hidden categories are kept: their tab is shown while
+   * it is active.
+   * @param filters - Category and tags
+   * @param items - Every card
+   * @returns Filters with an existing category, or 'all'
+   */
+  export function resolveFilters(filters: CardFilters, items: MenuItem[]): CardFilters {
+    const { category } = filters;
+    return category === 'all' || items.some((item) => item.category === category)
+      ? filters
+      : { ...filters, category: 'all' };
+  }
+
+  /**
+   * Reads the filters from a URL hash such as #category=security&tag=csp&tag=ipc
+   * @param hash - URL hash, with or without the leading #
+   * @returns Filters; every card without any
+   */
+  export function parseHash(hash: string): CardFilters {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return {
+      category: params.get('category') || 'all',
+      tags: [...new Set(params.getAll('tag').filter(Boolean))],
+    };
+  }
+
+  /**
+   * Writes the filters as a URL hash
+   * @param filters - Category and tags
+   * @returns URL hash, empty without filters
+   */
+  export function formatHash(filters: CardFilters): string {
+    const params = new URLSearchParams();
+    if (filters.category !== 'all') {
+      params.set('category', filters.category);
+    }
+    filters.tags.forEach((tag) => params.append('tag', tag));
+    const query = params.toString();
+    return query ? `#${query}` : '';
+  }
+}
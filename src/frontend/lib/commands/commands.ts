@@ -0,0 +1,168 @@
+import { api } from '../../../shared/api';
+import type { ShortcutBindings } from '../../../shared/shortcuts';
+import { createTopicEditorWindow, createUserTopicWindow } from '../../utils/topic-windows';
+import { DetachedWindowUtils } from '../detached-windows/detached-windows';
+import { menuData } from '../menu-data';
+import { UseCaseUtils } from '../use-cases/use-cases';
+import { UserTopicUtils } from '../user-topics/user-topics';
+import { windowManager } from '../window-manager';
+
+/**
+ * Entry of the command palette
+ */
+export interface Command {
+  id: string;
+  title: string;
+  group: 'Topics' | 'Windows' | 'Actions';
+  // Shortcut shown next to the title
+  shortcut?: string;
+  run: () => void;
+}
+
+/**
+ * Commands of the command palette and fuzzy matching over them
+ */
+export namespace CommandUtils {
+  /**
+   * Builds the commands for the current state: every topic, including the user's,
+   * every open window of the active workspace and the window actions
+   * @param shortcuts - Current shortcuts, shown next to their actions
+   * @param openSettings - Opens the shortcut settings
+   * @returns Commands, topics first
+   */
+  export function getCommands(shortcuts: ShortcutBindings, openSettings: () => void): Command[] {
+    const topics: Command[] = menuData.map((item) => ({
+      id: `topic:${item.id}`,
+      title: item.title,
+      group: 'Topics',
+      run: () => {
+        UseCaseUtils.openWindow(item.id, { title: item.title, content: item.content });
+      },
+    }));
+    const userTopics: Command[] = UserTopicUtils.getTopics().map((topic) => ({
+      id: `topic:${topic.id}`,
+      title: topic.title,
+      group: 'Topics',
+      run: () => {
+        createUserTopicWindow(topic.id);
+      },
+    }));
+
+    const windows: Command[] = windowManager.getWindows().map((record) => ({
+      id: `window:${record.id}`,
+      title: record.title,
+      group: 'Windows',
+      run: () => windowManager.reveal(record.id),
+    }));
+
+    const active = windowManager.getWindows().find((record) => record.isActive);
+    const actions: Command[] = [
+      {
+        id: 'action:next-window',
+        title: 'Focus next window',
+        shortcut: shortcuts['next-window'],
+        run: () => windowManager.cycleFocus(1),
+      },
+      {
+        id: 'action:close-window',
+        title: 'Close active window',
+        shortcut: shortcuts['close-window'],
+        run: () => windowManager.closeActive(),
+      },
+      {
+        id: 'action:minimize-all',
+        title: 'Minimize all windows',
+        run: () => windowManager.minimizeAll(),
+      },
+      {
+        id: 'action:layout-split',
+        title: 'Layout: Split left/right',
+        shortcut: shortcuts['layout-split'],
+        run: () => windowManager.applyLayout('split'),
+      },
+      {
+        id: 'action:layout-grid',
+        title: 'Layout: Grid',
+        shortcut: shortcuts['layout-grid'],
+        run: () => windowManager.applyLayout('grid'),
+      },
+      {
+        id: 'action:layout-cascade',
+        title: 'Layout: Cascade',
+        shortcut: shortcuts['layout-cascade'],
+        run: () => windowManager.applyLayout('cascade'),
+      },
+      ...(active && DetachedWindowUtils.canPopOut(active)
+        ? [
+            {
+              id: 'action:pop-out',
+              title: 'Pop out active window',
+              run: () => {
+                DetachedWindowUtils.popOut(active);
+              },
+            },
+          ]
+        : []),
+      ...(api.isAvailable()
+        ? [
+            {
+              id: 'action:new-topic',
+              title: 'New topic…',
+              run: () => {
+                createTopicEditorWindow();
+              },
+            },
+          ]
+        : []),
+      {
+        id: 'action:shortcuts',
+        title: 'Keyboard shortcuts…',
+        run: openSettings,
+      },
+    ].map((action) => ({ ...action, group: 'Actions' as const }));
+
+    return [...topics, ...userTopics, ...windows, ...actions];
+  }
+
+  /**
+   * Scores how well a query matches a text: every query character must appear in
+   * order. Consecutive characters and word starts score higher, longer texts slightly lower.
+   * @param query - Typed query; spaces are ignored
+   * @param text - Text to match
+   * @returns Score, or null if the text does not match
+   */
+  export function fuzzyScore(query: string, text: string): number | null {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    const haystack = text.toLowerCase();
+    let score = 0;
+    let from = 0;
+    let previous = -2;
+
+    for (const char of needle) {
+      const index = haystack.indexOf(char, from);
+      if (index === -1) return null;
+
+      score += index === previous + 1 ? 3 : 1;
+      if (index === 0 || /[\s:/-]/.test(haystack[index - 1])) score += 2;
+      previous = index;
+      from = index + 1;
+    }
+    return score - haystack.length * 0.01;
+  }
+
+  /**
+   * Filters and ranks commands by a query
+   * @param commands - All commands
+   * @param query - Typed query
+   * @returns Matching commands, best first; all commands in order for an empty query
+   */
+  export function search(commands: Command[], query: string): Command[] {
+    if (!query.trim()) return commands;
+
+    return commands
+      .map((command) => ({ command, score: fuzzyScore(query, command.title) }))
+      .filter((match): match is { command: Command; score: number } => match.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.command);
+  }
+}
@@ -0,0 +1,210 @@
+import { api } from '../../../shared/api';
+import { contentHostStyles } from '../../styles/redesigned-styles';
+import { openTopicWindow } from '../../utils/topic-windows';
+
+/**
+ * How window content is isolated from the app shell: a shadow root for the
+ * app's own content, a sandboxed frame without script access to the shell for
+ * untrusted content
+ */
+export type ContentIsolation = 'shadow' | 'iframe';
+
+/**
+ * Action requested by window content
+ */
+export type ContentMessage =
+  | { type: 'open-link'; url: string }
+  | { type: 'open-topic'; id: string }
+  | { type: 'resize'; height: number };
+
+/**
+ * Renders window HTML apart from the app shell: sanitized, with its own styles,
+ * talking to the shell only through content messages
+ */
+export namespace ContentHostUtils {
+  // Elements removed with their content
+  const blockedElements = [
+    'script',
+    'iframe',
+    'frame',
+    'frameset',
+    'object',
+    'embed',
+    'link',
+    'meta',
+    'base',
+    'form',
+    'template',
+  ];
+  // Attributes holding a URL, checked for script and data URLs
+  const urlAttributes = ['href', 'src', 'action', 'formaction', 'xlink:href', 'poster'];
+
+  function isSafeUrl(name: string, value: string): boolean {
+    // Browsers ignore whitespace and control characters inside the scheme
+    const url = Array.from(value)
+      .filter((char) => char > ' ')
+      .join('')
+      .toLowerCase();
+    if (url.startsWith('javascript:') || url.startsWith('vbscript:')) return false;
+    return !url.startsWith('data:') || (name === 'src' && url.startsWith('data:image/'));
+  }
+
+  /**
+   * Removes scripts, frames, forms, event handler attributes and script URLs
+   * from HTML. The HTML is parsed inert, so nothing runs or loads meanwhile.
+   * @param html - Untrusted HTML
+   * @returns HTML safe to render in the renderer's origin
+   */
+  export function sanitize(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+
+    template.content.querySelectorAll(blockedElements.join(',')).forEach((element) => {
+      element.remove();
+    });
+    template.content.querySelectorAll('*').forEach((element) => {
+      Array.from(element.attributes).forEach(({ name, value }) => {
+        const attribute = name.toLowerCase();
+        if (
+          attribute.startsWith('on') ||
+          attribute === 'srcdoc' ||
+          (urlAttributes.includes(attribute) && !isSafeUrl(attribute, value))
+        ) {
+          element.removeAttribute(name);
+        }
+      });
+    });
+    return template.innerHTML;
+  }
+
+  /**
+   * Checks that data posted by content is a known message
+   * @param data - Posted data
+   * @returns The message, or null if it is not one
+   */
+  export function parseMessage(data: unknown): ContentMessage | null {
+    if (typeof data !== 'object' || data === null) return null;
+    const message = data as Record<string, unknown>;
+
+    if (message.type === 'open-link' && typeof message.url === 'string') {
+      return { type: 'open-link', url: message.url };
+    }
+    if (message.type === 'open-topic' && typeof message.id === 'string') {
+      return { type: 'open-topic', id: message.id };
+    }
+    if (message.type === 'resize' && typeof message.height === 'number') {
+      return { type: 'resize', height: message.height };
+    }
+    return null;
+  }
+
+  /**
+   * Carries out a message of window content: web links open in the browser,
+   * topic links open the topic's window, whether a use case or a user topic
+   * @param message - Checked message
+   */
+  export function handleMessage(message: ContentMessage): void {
+    if (message.type === 'open-link') {
+      if (!/^https?:\/\//i.test(message.url)) return;
+      if (api.isAvailable()) {
+        api.call('open-external', message.url);
+      } else {
+        window.open(message.url, '_blank', 'noopener');
+      }
+    } else if (message.type === 'open-topic') {
+      openTopicWindow(message.id).catch((error) => {
+        console.error(`Error opening topic '${message.id}':`, error);
+      });
+    }
+  }
+
+  // Turns a click on a link into a message: <a data-topic="id"> opens a topic
+  function getLinkMessage(link: Element): ContentMessage | null {
+    const topic = link.getAttribute('data-topic');
+    if (topic) return { type: 'open-topic', id: topic };
+    const href = link.getAttribute('href');
+    return href && /^https?:\/\//i.test(href) ? { type: 'open-link', url: href } : null;
+  }
+
+  function mountShadow(container: HTMLElement, html: string): () => void {
+    // Clonable, so that sidebar previews copy the content too
+    const root = container.shadowRoot ?? container.attachShadow({ mode: 'open', clonable: true });
+    root.innerHTML = `<style>${contentHostStyles}</style>${sanitize(html)}`;
+
+    const handleClick = (event: Event) => {
+      const link = event.target instanceof Element ? event.target.closest('a') : null;
+      if (!link) return;
+
+      // Links never navigate the shell; in-page anchors scroll within the content
+      event.preventDefault();
+      const href = link.getAttribute('href') || '';
+      if (href.startsWith('#') && href.length > 1) {
+        root.getElementById(href.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+        return;
+      }
+      const message = getLinkMessage(link);
+      if (message) handleMessage(message);
+    };
+
+    root.addEventListener('click', handleClick);
+    return () => root.removeEventListener('click', handleClick);
+  }
+
+  function mountFrame(container: HTMLElement, html: string): () => void {
+    // Only the bridge script carries the nonce, so sanitizer misses still cannot run
+    const nonce = crypto.randomUUID();
+    const bridge = `
+      const post = (message) => parent.postMessage(message, '*');
+      document.addEventListener('click', (event) => {
+        const link = event.target instanceof Element ? event.target.closest('a') : null;
+        if (!link) return;
+        event.preventDefault();
+        const topic = link.getAttribute('data-topic');
+        if (topic) post({ type: 'open-topic', id: topic });
+        else if (/^https?:\\/\\//i.test(link.href)) post({ type: 'open-link', url: link.href });
+      });
+      new ResizeObserver(() => {
+        post({ type: 'resize', height: document.documentElement.scrollHeight });
+      }).observe(document.body);
+    `;
+
+    const frame = document.createElement('iframe');
+    // Scripts run in an opaque origin: no access to the shell, its storage or the preload API
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.setAttribute('title', 'Window content');
+    Object.assign(frame.style, { display: 'block', width: '100%', border: '0' });
+    frame.srcdoc = `<!doctype html><html><head>
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}'">
+      <style>${contentHostStyles}</style>
+      </head><body>${sanitize(html)}<script nonce="${nonce}">${bridge}</script></body></html>`;
+
+    const handleMessageEvent = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow) return;
+      const message = parseMessage(event.data);
+      if (message?.type === 'resize') {
+        frame.style.height = `${Math.ceil(message.height)}px`;
+      } else if (message) {
+        handleMessage(message);
+      }
+    };
+
+    window.addEventListener('message', handleMessageEvent);
+    container.replaceChildren(frame);
+    return () => window.removeEventListener('message', handleMessageEvent);
+  }
+
+  /**
+   * Renders HTML into a container, replacing what it showed before
+   * @param container - Element that hosts the content
+   * @param html - Content HTML, sanitized before rendering
+   * @param isolation - Shadow root (default) or sandboxed frame
+   * @returns Function that stops listening to the content
+   */
+  export function mount(
+    container: HTMLElement,
+    html: string,
+    isolation: ContentIsolation = 'shadow'
+  ): () => void {
+    return isolation === 'iframe' ? mountFrame(container, html) : mountShadow(container, html);
+  }
+}
@@ -0,0 +1,95 @@
+import { api } from '../../../shared/api';
+import type { DetachedWindowInfo } from '../../../shared/ipc-channels';
+import { UseCaseUtils } from '../use-cases/use-cases';
+import { type WindowRecord, windowManager } from '../window-manager';
+
+/**
+ * Moves use-case windows between the WinBox desktop and native windows
+ * created by the main process
+ */
+export namespace DetachedWindowUtils {
+  /**
+   * Checks whether a WinBox window can be popped out: only use-case windows can,
+   * and only inside Electron
+   * @param record - WinBox window
+   */
+  export function canPopOut(record: WindowRecord): boolean {
+    return record.useCaseId !== undefined && api.isAvailable();
+  }
+
+  /**
+   * Reopens a WinBox window as a native window and closes the WinBox
+   * @param record - WinBox window
+   * @returns The detached window, or null if it could not be created
+   */
+  export async function popOut(record: WindowRecord): Promise<DetachedWindowInfo | null> {
+    if (!record.useCaseId) return null;
+
+    const result = await api.call('detach-window', record.useCaseId, record.title);
+    if (!result.success || !result.data) return null;
+
+    windowManager.close(record.id);
+    return result.data;
+  }
+
+  /**
+   * Closes a native window; the main window reopens it as a WinBox
+   * @param id - Detached window id
+   */
+  export async function dock(id: string): Promise<void> {
+    await api.call('dock-window', id);
+  }
+
+  /**
+   * Brings a native window to the front
+   * @param id - Detached window id
+   */
+  export async function focus(id: string): Promise<void> {
+    await api.call('focus-detached-window', id);
+  }
+
+  /**
+   * Subscribes to the list of detached windows
+   * @param callback - Called with the current list, then after every change
+   * @returns Function that unsubscribes
+   */
+  export function subscribe(callback: (windows: DetachedWindowInfo[]) => void): () => void {
+    let active = true;
+    api.call('get-detached-windows').then((result) => {
+      if (active && result.success && result.data) callback(result.data);
+    });
+
+    const unsubscribe = api.subscribe('detached-windows-changed', ({ windows }) =>
+      callback(windows)
+    );
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Reopens docked windows on the WinBox desktop. Only the main window does this.
+   * @returns Function that stops docking
+   */
+  export function startDocking(): () => void {
+    return api.subscribe('window-docked', ({ useCaseId, title }) => {
+      UseCaseUtils.openWindow(useCaseId, { title }).catch((error) =>
+        console.error(`Failed to dock window '${title}':`, error)
+      );
+    });
+  }
+
+  /**
+   * Reads the detached window this page is loaded in from its query string
+   * @returns Window id, use case and title, or null in the main window
+   */
+  export function getCurrent(): DetachedWindowInfo | null {
+    const params = new URLSearchParams(window.location.search);
+    const id = params.get('detached');
+    const useCaseId = params.get('useCase');
+    if (!id || !useCaseId) return null;
+
+    return { id, useCaseId, title: params.get('title') || useCaseId };
+  }
+}
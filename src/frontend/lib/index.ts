@@ -5,6 +5,16 @@ export { UiUtils } from './ui/ui';
 export { StorageUtils } from './storage/storage';
 export { ReactHooksUtils } from './react-hooks/hooks';
 export { ApiUtils } from './api/api';
+export { UseCaseUtils } from './use-cases/use-cases';
+export { UserTopicUtils } from './user-topics/user-topics';
+export { WorkspaceUtils } from './workspace/workspace';
+export { DetachedWindowUtils } from './detached-windows/detached-windows';
+export { ShortcutUtils } from './shortcuts/shortcuts';
+export { CommandUtils } from './commands/commands';
+export { ContentHostUtils } from './content-host/content-host';
+export { WindowPortalUtils } from './window-portals/window-portals';
+export { SearchIndex, SearchUtils } from './search/search';
+export { CategoryUtils } from './categories/categories';
 
 // Export types
 export * from './common/types';
\ No newline at end of file
@@ -0,0 +1,46 @@
+// Dynamic menu configuration for the frontend fuzzy search
+// Menu items are derived from the use-case manifests under src/use-cases
+
+import type { MenuItem } from '../../shared/menu-data';
+import { registerContentPlugin } from '../../shared/window-generator';
+import { type SearchField, SearchIndex, SearchUtils } from './search/search';
+import { UseCaseUtils } from './use-cases/use-cases';
+
+export type { MenuItem };
+
+export const menuData: MenuItem[] = UseCaseUtils.getUseCases().map(
+  ({ id, title, content, excerpt, category, tags }) => ({
+    id,
+    title,
+    content,
+    excerpt,
+    category,
+    tags,
+  })
+);
+
+// Searched fields, title first; content is searched as text without its HTML
+export const menuSearchFields: SearchField<MenuItem>[] = [
+  { name: 'title', weight: 4, get: (item) => item.title },
+  { name: 'tags', weight: 2, get: (item) => item.tags },
+  { name: 'category', weight: 2, get: (item) => item.category },
+  { name: 'content', weight: 1, get: (item) => SearchUtils.stripHtml(item.content) },
+];
+
+// Built once; update items here when their content changes
+export const menuSearchIndex = new SearchIndex(menuSearchFields, (item) => item.id, menuData);
+
+// The paragraphs of the use-case topics feed generated window content, grouped by
+// category, with every paragraph as the default
+registerContentPlugin({
+  name: 'use-cases',
+  templates: menuData.reduce<Record<string, string[]>>(
+    (templates, item) => {
+      const paragraphs = item.content.match(/<p>[\s\S]*?<\/p>/g) ?? [];
+      templates[item.category] = [...(templates[item.category] ?? []), ...paragraphs];
+      templates.default.push(...paragraphs);
+      return templates;
+    },
+    { default: [] }
+  ),
+});
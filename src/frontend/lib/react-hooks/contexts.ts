@@ -0,0 +1,10 @@
+// Contexts provided by AppProviders to the app, window content included
+import { createContext } from 'react';
+import { type SafeAPI, api } from '../../../shared/api';
+import { theme } from '../../styles/redesigned-styles';
+
+export type AppTheme = typeof theme;
+
+// The defaults are the app's own, so components also work outside the providers
+export const ThemeContext = createContext<AppTheme>(theme);
+export const ApiContext = createContext<SafeAPI>(api);
@@ -1,4 +1,8 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { type SafeAPI, api } from '../../../shared/api';
+import type { IpcEventChannel, IpcEventPayload } from '../../../shared/ipc-channels';
+import { parseShortcut } from '../../../shared/shortcuts';
+import { ApiContext, type AppTheme, ThemeContext } from './contexts';
 
 /**
  * React-specific utility functions and hooks
@@ -145,6 +149,16 @@ export namespace ReactHooksUtils {
     return ref;
   }
 
+  // Letters match in either case (Shift changes event.key), digits and letters also by
+  // physical key, since Alt turns them into symbols on some layouts
+  function matchesKey(event: KeyboardEvent, key: string): boolean {
+    if (event.key.toLowerCase() === key.toLowerCase()) return true;
+    return (
+      key.length === 1 &&
+      (event.code === `Key${key.toUpperCase()}` || event.code === `Digit${key}`)
+    );
+  }
+
   /**
    * Custom hook for keyboard shortcuts
    * @param key - Key to listen for
@@ -163,7 +177,7 @@ export namespace ReactHooksUtils {
     useEffect(() => {
       const handleKeyPress = (event: KeyboardEvent) => {
         if (
-          event.key === key &&
+          matchesKey(event, key) &&
           event.ctrlKey === ctrl &&
           event.shiftKey === shift &&
           event.altKey === alt
@@ -178,6 +192,58 @@ export namespace ReactHooksUtils {
     }, [key, callback, ctrl, shift, alt]);
   }
 
+  /**
+   * Custom hook for a configurable shortcut
+   * @param shortcut - Shortcut such as "Ctrl+Shift+P"; an invalid one never fires
+   * @param callback - Callback function
+   */
+  export function useShortcut(shortcut: string, callback: () => void) {
+    const parsed = parseShortcut(shortcut);
+    useKeyboard(
+      parsed?.key ?? '',
+      callback,
+      parsed?.ctrl ?? false,
+      parsed?.shift ?? false,
+      parsed?.alt ?? false
+    );
+  }
+
+  /**
+   * Custom hook for events pushed by the main process
+   * @param channel - Event channel declared in the IPC contract
+   * @param handler - Called with each event payload
+   */
+  export function useIpcEvent<C extends IpcEventChannel>(
+    channel: C,
+    handler: (payload: IpcEventPayload<C>) => void
+  ) {
+    const savedHandler = useRef(handler);
+
+    useEffect(() => {
+      savedHandler.current = handler;
+    }, [handler]);
+
+    useEffect(() => {
+      return api.subscribe(channel, (payload) => savedHandler.current(payload));
+    }, [channel]);
+  }
+
+  /**
+   * Custom hook for the app theme
+   * @returns Theme colors, shadows and typography
+   */
+  export function useTheme(): AppTheme {
+    return useContext(ThemeContext);
+  }
+
+  /**
+   * Custom hook for the IPC API
+   * @returns API for calls to the main process
+   */
+  export function useApi(): SafeAPI {
+    return useContext(ApiContext);
+  }
+
   /**
    * Custom hook for media queries
    * @param query - Media query string
@@ -0,0 +1,327 @@
+/**
+ * Word of a text with its position, end exclusive
+ */
+export interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Searched field of an item; an array value is searched as one text
+ */
+export interface SearchField<T> {
+  name: string;
+  // Relative importance; a match in a field scores its weight times the match quality
+  weight: number;
+  get: (item: T) => string | string[];
+}
+
+/**
+ * Matched character ranges, start inclusive and end exclusive
+ */
+export type SearchRange = [start: number, end: number];
+
+/**
+ * Ranked search result
+ */
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  // Matched ranges per field name, in the text returned by getText
+  matches: Record<string, SearchRange[]>;
+}
+
+/**
+ * Part of a highlighted text
+ */
+export interface HighlightSegment {
+  text: string;
+  // Position in the whole text, also usable as a React key
+  start: number;
+  isMatch: boolean;
+}
+
+/**
+ * Text processing and fuzzy matching used by SearchIndex
+ */
+export namespace SearchUtils {
+  const entities: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    '#39': "'",
+    nbsp: ' ',
+  };
+
+  /**
+   * Turns HTML into plain text without a DOM: tags are dropped, common
+   * entities decoded and whitespace collapsed
+   * @param html - HTML fragment
+   * @returns Plain text
+   */
+  export function stripHtml(html: string): string {
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_match, name: string) => entities[name])
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Splits a text into lowercase words of letters and digits
+   * @param text - Text to split
+   * @returns Words with their positions in the text
+   */
+  export function tokenize(text: string): SearchToken[] {
+    const tokens: SearchToken[] = [];
+    for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+      const start = match.index ?? 0;
+      tokens.push({ term: match[0].toLowerCase(), start, end: start + match[0].length });
+    }
+    return tokens;
+  }
+
+  /**
+   * Counts the edits between two words: insertions, deletions, substitutions
+   * and swaps of neighbouring characters
+   * @param a - First word
+   * @param b - Second word
+   * @param max - Distance from which counting stops
+   * @returns Distance, or max + 1 if it is larger than max
+   */
+  export function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          value = Math.min(value, beforePrevious[j - 2] + 1);
+        }
+        current.push(value);
+        rowMin = Math.min(rowMin, value);
+      }
+      if (rowMin > max) return max + 1;
+      beforePrevious = previous;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Number of typos tolerated in a query word; short words must match exactly
+   */
+  export function allowedTypos(word: string): number {
+    if (word.length >= 7) return 2;
+    return word.length >= 4 ? 1 : 0;
+  }
+
+  /**
+   * Rates how well a query word matches an indexed word
+   * @param query - Query word, lowercase
+   * @param term - Indexed word, lowercase
+   * @returns Quality from 0 (no match) to 1 (same word), and how many leading
+   * characters of the indexed word matched
+   */
+  export function matchTerm(query: string, term: string): { quality: number; length: number } {
+    if (term === query) return { quality: 1, length: term.length };
+    // The last word is often still being typed
+    if (term.startsWith(query)) return { quality: 0.75, length: query.length };
+
+    const typos = allowedTypos(query);
+    if (typos === 0) return { quality: 0, length: 0 };
+
+    const whole = editDistance(query, term, typos);
+    if (whole <= typos) return { quality: 0.6 - 0.15 * (whole - 1), length: term.length };
+    // A typo inside a word that is still being typed
+    if (term.length > query.length) {
+      const prefix = editDistance(query, term.slice(0, query.length), typos);
+      if (prefix <= typos) return { quality: 0.45 - 0.15 * (prefix - 1), length: query.length };
+    }
+    return { quality: 0, length: 0 };
+  }
+
+  /**
+   * Splits a text at matched ranges, e.g. to wrap matches in <mark>
+   * @param text - Text to split
+   * @param ranges - Matched ranges, in any order and possibly overlapping
+   * @returns Segments covering the whole text
+   */
+  export function highlight(text: string, ranges: SearchRange[] = []): HighlightSegment[] {
+    const merged: SearchRange[] = [];
+    [...ranges]
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([start, end]) => {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+        else merged.push([start, end]);
+      });
+
+    const segments: HighlightSegment[] = [];
+    let position = 0;
+    const push = (start: number, end: number, isMatch: boolean) => {
+      if (end > start) segments.push({ text: text.slice(start, end), start, isMatch });
+    };
+    merged.forEach(([start, end]) => {
+      push(position, start, false);
+      push(start, end, true);
+      position = end;
+    });
+    push(position, text.length, false);
+    return segments;
+  }
+}
+
+// Occurrences of a word in one field of one item
+interface Posting {
+  id: string;
+  field: number;
+  positions: number[];
+}
+
+interface IndexedItem<T> {
+  item: T;
+  texts: string[];
+  terms: Set<string>;
+}
+
+/**
+ * Inverted index over weighted fields with typo-tolerant, ranked search.
+ * Items are added, updated and removed one at a time, so the index is built
+ * once and kept current without rebuilding it.
+ */
+export class SearchIndex<T> {
+  private items: Map<string, IndexedItem<T>> = new Map();
+  private postings: Map<string, Posting[]> = new Map();
+
+  constructor(
+    private fields: SearchField<T>[],
+    private getId: (item: T) => string,
+    items: T[] = []
+  ) {
+    items.forEach((item) => this.add(item));
+  }
+
+  /**
+   * Adds an item, replacing an indexed item with the same id
+   */
+  add(item: T): void {
+    const id = this.getId(item);
+    // A replaced item keeps its place in the order of ties
+    this.unindex(id);
+
+    const texts = this.fields.map((field) => {
+      const value = field.get(item);
+      return Array.isArray(value) ? value.join(' ') : value;
+    });
+    const terms: Set<string> = new Set();
+
+    texts.forEach((text, field) => {
+      const positions: Map<string, number[]> = new Map();
+      SearchUtils.tokenize(text).forEach(({ term, start }) => {
+        positions.set(term, [...(positions.get(term) ?? []), start]);
+      });
+      positions.forEach((starts, term) => {
+        terms.add(term);
+        this.postings.set(term, [
+          ...(this.postings.get(term) ?? []),
+          { id, field, positions: starts },
+        ]);
+      });
+    });
+
+    this.items.set(id, { item, texts, terms });
+  }
+
+  /**
+   * Re-indexes a changed item
+   */
+  update(item: T): void {
+    this.add(item);
+  }
+
+  /**
+   * Removes an item and its words from the index
+   */
+  remove(id: string): void {
+    this.unindex(id);
+    this.items.delete(id);
+  }
+
+  /**
+   * Gets the indexed text of a field, e.g. HTML content with tags stripped
+   */
+  getText(id: string, fieldName: string): string {
+    const field = this.fields.findIndex((candidate) => candidate.name === fieldName);
+    return this.items.get(id)?.texts[field] ?? '';
+  }
+
+  /**
+   * Finds the items matching every word of a query, best first. Each query word
+   * may match a whole word, the start of a word or a word with a few typos.
+   * @param query - Search text
+   * @returns Ranked results; empty for a query without words
+   */
+  search(query: string): SearchResult<T>[] {
+    const words = Array.from(new Set(SearchUtils.tokenize(query).map(({ term }) => term)));
+    if (words.length === 0) return [];
+
+    // Best score of each query word per item, and every matched range
+    const scores: Map<string, number[]> = new Map();
+    const matches: Map<string, Record<string, SearchRange[]>> = new Map();
+
+    words.forEach((word, w) => {
+      this.postings.forEach((postings, term) => {
+        const { quality, length } = SearchUtils.matchTerm(word, term);
+        if (quality === 0) return;
+
+        postings.forEach(({ id, field, positions }) => {
+          const itemScores = scores.get(id) ?? new Array(words.length).fill(0);
+          itemScores[w] = Math.max(itemScores[w], quality * this.fields[field].weight);
+          scores.set(id, itemScores);
+
+          const itemMatches = matches.get(id) ?? {};
+          const name = this.fields[field].name;
+          itemMatches[name] = [
+            ...(itemMatches[name] ?? []),
+            ...positions.map((start): SearchRange => [start, start + length]),
+          ];
+          matches.set(id, itemMatches);
+        });
+      });
+    });
+
+    const results: SearchResult<T>[] = [];
+    scores.forEach((itemScores, id) => {
+      if (itemScores.some((score) => score === 0)) return;
+      results.push({
+        item: (this.items.get(id) as IndexedItem<T>).item,
+        score: itemScores.reduce((sum, score) => sum + score, 0),
+        matches: matches.get(id) ?? {},
+      });
+    });
+    // Equal scores keep the order the items were indexed in
+    const order = Array.from(this.items.keys());
+    return results.sort(
+      (a, b) =>
+        b.score - a.score ||
+        order.indexOf(this.getId(a.item)) - order.indexOf(this.getId(b.item))
+    );
+  }
+
+  private unindex(id: string): void {
+    this.items.get(id)?.terms.forEach((term) => {
+      const remaining = (this.postings.get(term) ?? []).filter((posting) => posting.id !== id);
+      if (remaining.length > 0) this.postings.set(term, remaining);
+      else this.postings.delete(term);
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { api } from '../../../shared/api';
+import { type ShortcutBindings, defaultShortcuts } from '../../../shared/shortcuts';
+
+/**
+ * Keyboard shortcut settings, stored in the main-process config. Outside Electron
+ * the defaults are used and changes last until reload.
+ */
+export namespace ShortcutUtils {
+  let bindings: ShortcutBindings = { ...defaultShortcuts };
+  let loading: Promise<ShortcutBindings> | null = null;
+  const listeners: Set<(bindings: ShortcutBindings) => void> = new Set();
+
+  function setBindings(next: ShortcutBindings): ShortcutBindings {
+    bindings = next;
+    listeners.forEach((listener) => listener(bindings));
+    return bindings;
+  }
+
+  /**
+   * Loads the shortcuts once per page load
+   * @returns Shortcut of every action
+   */
+  export function load(): Promise<ShortcutBindings> {
+    loading ??= api.call('get-shortcuts').then((result) =>
+      result.success && result.data ? setBindings(result.data) : bindings
+    );
+    return loading;
+  }
+
+  /**
+   * Gets the current shortcuts, the defaults until they are loaded
+   */
+  export function getBindings(): ShortcutBindings {
+    return bindings;
+  }
+
+  /**
+   * Subscribes to shortcut changes, loading them on first use
+   * @param callback - Called with the shortcut of every action
+   * @returns Function that unsubscribes
+   */
+  export function subscribe(callback: (bindings: ShortcutBindings) => void): () => void {
+    listeners.add(callback);
+    load();
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Changes some shortcuts
+   * @param changes - New shortcut per action
+   * @returns Error message, or null if saved
+   */
+  export async function update(changes: Partial<ShortcutBindings>): Promise<string | null> {
+    if (!api.isAvailable()) {
+      setBindings({ ...bindings, ...changes });
+      return null;
+    }
+
+    const result = await api.call('set-shortcuts', changes);
+    if (!result.success || !result.data) return result.error || 'Failed to save shortcuts';
+
+    setBindings(result.data);
+    return null;
+  }
+
+  /**
+   * Restores the default shortcuts
+   */
+  export async function reset(): Promise<void> {
+    const result = await api.call('reset-shortcuts');
+    setBindings(result.success && result.data ? result.data : { ...defaultShortcuts });
+  }
+}
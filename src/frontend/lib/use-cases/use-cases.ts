@@ -0,0 +1,79 @@
+import type { ReactElement } from 'react';
+import { api } from '../../../shared/api';
+import type { UseCaseManifest, UseCaseWindowOptions } from '../../../use-cases/types';
+
+// Rspack bundles every manifest found under src/use-cases at build time
+const manifestContext = require.context('../../../use-cases', true, /^\.\/[^/]+\/manifest\.ts$/);
+
+/**
+ * Use-case discovery for the renderer process
+ */
+export namespace UseCaseUtils {
+  const useCases: UseCaseManifest[] = manifestContext
+    .keys()
+    .map((key) => (manifestContext(key) as { manifest: UseCaseManifest }).manifest)
+    .sort((a, b) => a.order - b.order);
+
+  /**
+   * Gets all use cases
+   * @returns Manifests, in menu order
+   */
+  export function getUseCases(): UseCaseManifest[] {
+    return useCases;
+  }
+
+  /**
+   * Gets a use case by id
+   * @param id - Use-case id
+   * @returns Manifest, or undefined if no use case has this id
+   */
+  export function getUseCase(id: string): UseCaseManifest | undefined {
+    return useCases.find((useCase) => useCase.id === id);
+  }
+
+  /**
+   * Opens the window of a use case, loading its window module on first use
+   * @param id - Use-case id
+   * @param options - Window title and content
+   * @returns Whatever the window factory returns
+   */
+  export async function openWindow(id: string, options: UseCaseWindowOptions): Promise<unknown> {
+    const useCase = getUseCase(id);
+    if (!useCase) {
+      throw new Error(`Unknown use case: ${id}`);
+    }
+    const createWindow = await useCase.loadWindow();
+    return createWindow(options);
+  }
+
+  /**
+   * Fetches the content of a use case from its main-process handler
+   * @param id - Use-case id
+   * @param fallback - Bundled content, used when IPC is unavailable (e.g. in a plain
+   * browser through the dev server) or the call fails
+   * @returns Content HTML
+   */
+  export async function fetchContent(id: string, fallback: string): Promise<string> {
+    if (!api.isAvailable()) {
+      return fallback;
+    }
+
+    const result = await api.call('get-use-case-info', id);
+    return result.success && result.data ? result.data.content : fallback;
+  }
+
+  /**
+   * Resolves what the window of a use case shows: the content its manifest
+   * declares, such as a React demo, or else the HTML served by its handler
+   * @param id - Use-case id
+   * @returns Content HTML or React element
+   */
+  export async function getContent(id: string): Promise<string | ReactElement> {
+    const useCase = getUseCase(id);
+    if (useCase?.loadContent) {
+      const createContent = await useCase.loadContent();
+      return createContent();
+    }
+    return fetchContent(id, useCase?.content || '');
+  }
+}
@@ -0,0 +1,126 @@
+import { type ApiCallResult, api } from '../../../shared/api';
+import type { UserTopic, UserTopicInput } from '../../../shared/ipc-channels';
+import { createTopic, renderTopic } from '../../../shared/markdown';
+import type { MenuItem } from '../../../shared/menu-data';
+import { UseCaseUtils } from '../use-cases/use-cases';
+
+/**
+ * Topics written by the user, kept in sync with the main process. The
+ * renderer compiles their Markdown with the same code as the bundled topics.
+ */
+export namespace UserTopicUtils {
+  let topics: UserTopic[] = [];
+  const listeners: Set<(topics: UserTopic[]) => void> = new Set();
+  let stopEvents: (() => void) | null = null;
+
+  function setTopics(next: UserTopic[]): void {
+    // A use case keeps its id, even against a file added to the topics folder by hand
+    topics = next.filter((topic) => !UseCaseUtils.getUseCase(topic.id));
+    listeners.forEach((listener) => listener(topics));
+  }
+
+  async function call<T>(result: Promise<ApiCallResult<T>>): Promise<T> {
+    const { success, data, error } = await result;
+    if (!success) {
+      throw new Error(error || 'Topic request failed');
+    }
+    return data as T;
+  }
+
+  /**
+   * Gets the loaded topics
+   * @returns Topics, most recently updated first
+   */
+  export function getTopics(): UserTopic[] {
+    return topics;
+  }
+
+  /**
+   * Gets a loaded topic by id
+   * @param id - Topic id
+   * @returns Topic, or undefined if there is none with this id
+   */
+  export function getTopic(id: string): UserTopic | undefined {
+    return topics.find((topic) => topic.id === id);
+  }
+
+  /**
+   * Subscribes to the topics, which follow changes made in any window
+   * @param listener - Called with every topic after each change
+   * @returns Function that removes the listener
+   */
+  export function subscribe(listener: (topics: UserTopic[]) => void): () => void {
+    listeners.add(listener);
+    stopEvents ??= api.subscribe('user-topics-changed', (payload) => setTopics(payload.topics));
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        stopEvents?.();
+        stopEvents = null;
+      }
+    };
+  }
+
+  /**
+   * Loads the topics from the main process; none outside Electron
+   * @returns Topics
+   */
+  export async function load(): Promise<UserTopic[]> {
+    if (api.isAvailable()) {
+      setTopics(await call(api.call('list-user-topics')));
+    }
+    return topics;
+  }
+
+  /**
+   * Creates a topic, or updates it if an id is given
+   * @param id - Topic id, or null for a new topic
+   * @param input - Topic fields
+   * @returns Saved topic
+   */
+  export async function save(id: string | null, input: UserTopicInput): Promise<UserTopic> {
+    const topic = await call(
+      id ? api.call('update-user-topic', id, input) : api.call('create-user-topic', input)
+    );
+    // The change event follows; the saved topic is shown at once meanwhile
+    setTopics([topic, ...topics.filter((item) => item.id !== topic.id)]);
+    return topic;
+  }
+
+  /**
+   * Deletes a topic
+   * @param id - Topic id
+   */
+  export async function remove(id: string): Promise<void> {
+    await call(api.call('delete-user-topic', id));
+    setTopics(topics.filter((topic) => topic.id !== id));
+  }
+
+  /**
+   * Renders the Markdown of a topic for a window
+   * @param topic - Topic, possibly not saved yet
+   * @returns HTML
+   */
+  export function render(topic: UserTopicInput & { id?: string }): string {
+    const { id = '', title, category, tags, markdown } = topic;
+    return renderTopic(createTopic({ id, title, category, tags }, markdown));
+  }
+
+  /**
+   * Turns a topic into a card of the list and search
+   * @param topic - Topic
+   * @returns Menu item
+   */
+  export function toMenuItem(topic: UserTopic): MenuItem {
+    const { id, title, category, tags, markdown } = topic;
+    const compiled = createTopic({ id, title, category, tags }, markdown);
+    return {
+      id,
+      title,
+      content: renderTopic(compiled),
+      excerpt: compiled.excerpt,
+      category,
+      tags,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import type { WindowArea } from '../utils/window-area';
+
+type LayoutMode = 'split' | 'grid' | 'cascade';
+type SnapEdge = 'left' | 'right' | 'top';
+
+// Offset between cascaded windows
+const CASCADE_STEP = 32;
+// Share of the area a cascaded window covers
+const CASCADE_SIZE = 0.6;
+
+/**
+ * Computes one rectangle per window for a layout, back to front
+ * - split: first window on the left half, the others stacked on the right half
+ * - grid: as square a grid as possible, 2x2 for three or four windows
+ * - cascade: windows offset diagonally, wrapping when they would leave the area
+ */
+function computeLayout(mode: LayoutMode, count: number, area: WindowArea): WindowArea[] {
+  if (count <= 0) return [];
+  if (count === 1 && mode !== 'cascade') return [{ ...area }];
+
+  switch (mode) {
+    case 'split': {
+      const half = Math.floor(area.width / 2);
+      const right = count - 1;
+      const rowHeight = Math.floor(area.height / right);
+      return [
+        { x: area.x, y: area.y, width: half, height: area.height },
+        ...Array.from({ length: right }, (_, i) => ({
+          x: area.x + half,
+          y: area.y + i * rowHeight,
+          width: area.width - half,
+          height: i === right - 1 ? area.height - i * rowHeight : rowHeight,
+        })),
+      ];
+    }
+    case 'grid': {
+      const cols = Math.ceil(Math.sqrt(count));
+      const rows = Math.ceil(count / cols);
+      const cellWidth = Math.floor(area.width / cols);
+      const cellHeight = Math.floor(area.height / rows);
+      return Array.from({ length: count }, (_, i) => ({
+        x: area.x + (i % cols) * cellWidth,
+        y: area.y + Math.floor(i / cols) * cellHeight,
+        width: cellWidth,
+        height: cellHeight,
+      }));
+    }
+    case 'cascade': {
+      const width = Math.floor(area.width * CASCADE_SIZE);
+      const height = Math.floor(area.height * CASCADE_SIZE);
+      const steps = Math.max(
+        1,
+        Math.floor(Math.min(area.width - width, area.height - height) / CASCADE_STEP) + 1
+      );
+      return Array.from({ length: count }, (_, i) => ({
+        x: area.x + (i % steps) * CASCADE_STEP,
+        y: area.y + (i % steps) * CASCADE_STEP,
+        width,
+        height,
+      }));
+    }
+  }
+}
+
+/**
+ * Finds the edge the pointer dragging a window is touching
+ * @param point - Pointer position
+ * @param area - Area right of the sidebar
+ * @param threshold - Distance in pixels that counts as touching an edge
+ * @returns Edge, or null if the pointer is not near one
+ */
+function getSnapEdge(
+  point: { x: number; y: number },
+  area: WindowArea,
+  threshold: number = 8
+): SnapEdge | null {
+  if (point.x <= area.x + threshold) return 'left';
+  if (point.x >= area.x + area.width - threshold) return 'right';
+  if (point.y <= area.y + threshold) return 'top';
+  return null;
+}
+
+/**
+ * Rectangle a window snaps to: the left or right half, or the whole area for the top edge
+ */
+function getSnapArea(edge: SnapEdge, area: WindowArea): WindowArea {
+  const half = Math.floor(area.width / 2);
+  switch (edge) {
+    case 'left':
+      return { x: area.x, y: area.y, width: half, height: area.height };
+    case 'right':
+      return { x: area.x + half, y: area.y, width: area.width - half, height: area.height };
+    case 'top':
+      return { ...area };
+  }
+}
+
+export { computeLayout, getSnapEdge, getSnapArea };
+export type { LayoutMode, SnapEdge };
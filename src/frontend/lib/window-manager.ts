@@ -1,73 +1,103 @@
+import type { WorkspaceSnapshot } from '../../shared/ipc-channels';
+import { type WindowArea, applyWindowArea, getAvailableWindowArea } from '../utils/window-area';
+import {
+  type LayoutMode,
+  type SnapEdge,
+  computeLayout,
+  getSnapArea,
+  getSnapEdge,
+} from './window-layouts';
+import { type WindowState, canTransition, getDisplayState } from './window-state';
+
 interface WindowRecord {
   id: string;
   title: string;
   winbox: any;
+  state: WindowState;
+  // Derived from state and focus, kept on the record for the sidebar
   isMinimized: boolean;
   isActive: boolean;
+  // Set for use-case windows, which can be saved in and restored from a workspace
+  useCaseId?: string;
+  // Workspace the window was opened in; windows of other workspaces are hidden
+  workspaceId: string;
+  // Pinned windows are listed before all others
+  isPinned: boolean;
 }
 
 type WindowCallback = (windows: WindowRecord[]) => void;
 
+/**
+ * Tracks WinBox windows as explicit state machines. State changes come from the
+ * WinBox lifecycle callbacks; closes are confirmed by a MutationObserver when the
+ * window leaves the DOM, so nothing is polled.
+ */
 class WindowManager {
   private windows: Map<string, WindowRecord> = new Map();
   private listeners: Set<WindowCallback> = new Set();
-  private focusCheckInterval: number | null = null;
+  private layoutListeners: Set<() => void> = new Set();
+  private observer: MutationObserver | null = null;
   private initialized = false;
-  private stateUpdateTimeouts: Map<string, number> = new Map(); // Track timeouts per window
+  // Edge snapping: a window moved while the pointer is down is being dragged
+  private pointer = { x: 0, y: 0, isDown: false };
+  private drag: { id: string; edge: SnapEdge | null } | null = null;
+  private snapPreview: HTMLElement | null = null;
+  private activeWorkspaceId = '';
 
   init() {
     if (this.initialized) return;
     this.initialized = true;
 
-    this.focusCheckInterval = window.setInterval(() => {
-      this.checkWindowStates();
-    }, 100);
+    // WinBox mounts windows directly into the body and removes them on close
+    this.observer = new MutationObserver(this.handleMutations);
+    this.observer.observe(document.body, { childList: true });
+
+    document.addEventListener('pointerdown', this.handlePointerDown, true);
+    document.addEventListener('pointermove', this.handlePointerMove, true);
+    document.addEventListener('pointerup', this.handlePointerUp, true);
   }
 
-  register(id: string, title: string, winbox: any): void {
+  register(id: string, title: string, winbox: any, useCaseId?: string): void {
     this.init();
 
-    this.windows.set(id, {
+    const record: WindowRecord = {
       id,
       title,
       winbox,
+      state: 'opening',
       isMinimized: false,
-      isActive: true,
-    });
-
-    const checkClosed = () => {
-      if (!document.body.contains(winbox.window as HTMLElement)) {
-        this.unregister(id);
-      }
-    };
-
-    winbox.onclose = (force?: boolean) => {
-      setTimeout(() => {
-        if (!force) checkClosed();
-      }, 50);
+      isActive: Boolean(winbox.focused),
+      useCaseId,
+      workspaceId: this.activeWorkspaceId,
+      isPinned: false,
     };
-
-    winbox.onminimize = (state: boolean) => {
-      const record = this.windows.get(id);
-      if (record && record.isMinimized !== state) {
-        // Debounce the state update to prevent recursion
-        this.debouncedStateUpdate(id, { isMinimized: state, isActive: state ? false : record.isActive });
+    this.windows.set(id, record);
+
+    // Keep the window's own handlers and follow its lifecycle
+    this.hook(winbox, 'onfocus', () => this.setActive(id, true));
+    this.hook(winbox, 'onblur', () => this.setActive(id, false));
+    this.hook(winbox, 'onminimize', () => this.transition(record, 'minimized'));
+    this.hook(winbox, 'onmaximize', () => this.transition(record, getDisplayState(winbox)));
+    this.hook(winbox, 'onrestore', () => this.transition(record, getDisplayState(winbox)));
+    this.hook(winbox, 'onmove', () => {
+      if (this.pointer.isDown) {
+        this.trackDrag(id);
       }
-    };
+      this.syncDisplayState(record);
+    });
+    this.hook(winbox, 'onresize', () => this.syncDisplayState(record));
 
-    winbox.onrestore = (state: boolean) => {
-      const record = this.windows.get(id);
-      if (record && record.isMinimized !== !state) {
-        // Debounce the state update to prevent recursion
-        this.debouncedStateUpdate(id, { isMinimized: !state, isActive: !state ? true : record.isActive });
+    // Returning true from onclose cancels the close, so only enter closing after it
+    const onclose = winbox.onclose;
+    winbox.onclose = (force?: boolean) => {
+      const cancelled = onclose?.call(winbox, force);
+      if (!cancelled) {
+        this.transition(record, 'closing');
       }
+      return cancelled;
     };
 
-    setTimeout(() => {
-      this.updateActiveWindow(id);
-    }, 50);
-
-    this.notifyListeners();
+    this.transition(record, getDisplayState(winbox));
   }
 
   unregister(id: string): void {
@@ -76,72 +106,151 @@ class WindowManager {
   }
 
   focus(id: string): void {
-    const record = this.windows.get(id);
-    if (record) {
-      record.winbox.focus();
-      this.updateActiveWindow(id);
-    }
+    this.windows.get(id)?.winbox.focus();
   }
 
-  toggle(id: string): void {
+  /**
+   * Restores a window if it is minimized and focuses it
+   */
+  reveal(id: string): void {
     const record = this.windows.get(id);
     if (!record) return;
 
-    const isCurrentlyActive = record.isActive && !record.isMinimized;
+    if (record.state === 'minimized') {
+      record.winbox.restore();
+    }
+    record.winbox.focus();
+  }
 
-    if (isCurrentlyActive) {
-      // Currently active and visible - minimize it
-      record.isMinimized = true;
-      record.isActive = false;
-      record.winbox.minimize();
+  /**
+   * Focuses the next or previous window of the active workspace in list order,
+   * wrapping around and restoring minimized windows
+   * @param direction - 1 for next, -1 for previous
+   */
+  cycleFocus(direction: 1 | -1): void {
+    const records = this.getWindows();
+    if (records.length === 0) return;
+
+    const current = records.findIndex((record) => record.isActive);
+    // Without a focused window, start from the first or the last one
+    const start = current === -1 ? (direction === 1 ? -1 : 0) : current;
+    const next = (start + direction + records.length) % records.length;
+    this.reveal(records[next].id);
+  }
 
-      // Find another window to make active
-      let otherActive = false;
-      this.windows.forEach((r, otherId) => {
-        if (otherId !== id && !r.isMinimized) {
-          r.isActive = true;
-          r.winbox.focus();
-          otherActive = true;
-        } else if (otherId !== id) {
-          r.isActive = false;
-        }
-      });
+  /**
+   * Closes the focused window of the active workspace, if any
+   */
+  closeActive(): void {
+    const active = this.getWindows().find((record) => record.isActive);
+    if (active) {
+      this.close(active.id);
+    }
+  }
 
-      // If no other window is active, just update
-      if (!otherActive) {
-        this.notifyListeners();
-      }
-    } else {
-      // Not active or minimized - restore and focus
-      record.isMinimized = false;
-      record.isActive = true;
-
-      // Deactivate all other windows
-      this.windows.forEach((r, otherId) => {
-        if (otherId !== id) {
-          r.isActive = false;
-        }
-      });
+  /**
+   * Finds the open window of a use case in the active workspace
+   * @param useCaseId - Use-case id
+   * @returns The first instance, or undefined if none is open
+   */
+  findByUseCase(useCaseId: string): WindowRecord | undefined {
+    return this.getWindows().find((record) => record.useCaseId === useCaseId);
+  }
 
-      // Restore if minimized, then focus
-      if (record.winbox.min) {
-        record.winbox.restore();
-      }
-      record.winbox.focus();
+  /**
+   * Creates a window id from a stable key: the key itself for the first
+   * instance, then key:2, key:3 and so on
+   * @param key - Stable key, e.g. a use-case id
+   * @returns Id not used by any open window
+   */
+  createInstanceId(key: string): string {
+    if (!this.windows.has(key)) return key;
+
+    let instance = 2;
+    while (this.windows.has(`${key}:${instance}`)) instance++;
+    return `${key}:${instance}`;
+  }
+
+  /**
+   * Moves a window to another position in the list of the active workspace and
+   * stacks the windows to match, the first one in front. Pinned windows stay
+   * before all others, however far they are moved.
+   * @param id - Window id
+   * @param index - New position in the list
+   */
+  move(id: string, index: number): void {
+    const records = this.getWindows();
+    const from = records.findIndex((record) => record.id === id);
+    if (from === -1) return;
+
+    records.splice(index, 0, ...records.splice(from, 1));
+    // The map keeps the list order; windows of other workspaces keep theirs
+    const others = Array.from(this.windows.values()).filter(
+      (record) => record.workspaceId !== this.activeWorkspaceId
+    );
+    this.windows = new Map([...others, ...records].map((record) => [record.id, record]));
+
+    this.stackWindows(
+      this.getWindows()
+        .reverse()
+        .map((record) => record.id)
+    );
+    this.notifyListeners();
+  }
+
+  /**
+   * Pins a window to the top of the list, or unpins it
+   */
+  setPinned(id: string, isPinned: boolean): void {
+    const record = this.windows.get(id);
+    if (record && record.isPinned !== isPinned) {
+      record.isPinned = isPinned;
       this.notifyListeners();
     }
   }
 
+  /**
+   * Raises windows one after another, so that the last one ends up in front and
+   * focused. Minimized windows are skipped.
+   * @param ids - Window ids, back to front
+   */
+  stackWindows(ids: string[]): void {
+    ids.forEach((id) => {
+      const record = this.windows.get(id);
+      if (record && record.state !== 'minimized') {
+        // WinBox only raises a window that is not focused yet
+        record.winbox.blur();
+        record.winbox.focus();
+      }
+    });
+  }
+
+  toggle(id: string): void {
+    const record = this.windows.get(id);
+    if (!record) return;
+
+    // The WinBox callbacks update the state and the active window
+    if (record.isActive && record.state !== 'minimized') {
+      record.winbox.minimize();
+      return;
+    }
+
+    if (record.state === 'minimized') {
+      record.winbox.restore();
+    }
+    record.winbox.focus();
+  }
+
   minimize(id: string): void {
     const record = this.windows.get(id);
-    if (record) {
+    if (record && record.state !== 'minimized') {
       record.winbox.minimize();
     }
   }
 
   minimizeAll(): void {
-    this.windows.forEach((record) => {
-      if (!record.isMinimized) {
+    this.getWindows().forEach((record) => {
+      if (record.state !== 'minimized') {
         record.winbox.minimize();
       }
     });
@@ -155,15 +264,63 @@ class WindowManager {
   }
 
   closeAll(): void {
-    this.windows.forEach((record) => {
+    this.getWindows().forEach((record) => {
       record.winbox.close(true);
     });
-    this.windows.clear();
-    this.notifyListeners();
   }
 
+  /**
+   * Gets the windows of the active workspace in list order, pinned ones first
+   */
   getWindows(): WindowRecord[] {
-    return Array.from(this.windows.values());
+    const records = Array.from(this.windows.values()).filter(
+      (record) => record.workspaceId === this.activeWorkspaceId
+    );
+    return [
+      ...records.filter((record) => record.isPinned),
+      ...records.filter((record) => !record.isPinned),
+    ];
+  }
+
+  /**
+   * Shows the windows of a workspace and hides all others. Hidden windows keep
+   * their content and geometry until their workspace is shown again.
+   * Windows opened before any workspace was active join the first one.
+   * @param workspaceId - Workspace to show
+   */
+  setActiveWorkspace(workspaceId: string): void {
+    const previousId = this.activeWorkspaceId;
+    this.activeWorkspaceId = workspaceId;
+
+    this.windows.forEach((record) => {
+      if (!previousId && !record.workspaceId) {
+        record.workspaceId = workspaceId;
+      }
+      if (record.workspaceId === workspaceId) {
+        record.winbox.show();
+      } else {
+        record.winbox.hide();
+      }
+    });
+    this.notifyListeners();
+  }
+
+  /**
+   * Checks whether a workspace has open windows, shown or hidden
+   */
+  hasWorkspaceWindows(workspaceId: string): boolean {
+    return Array.from(this.windows.values()).some((record) => record.workspaceId === workspaceId);
+  }
+
+  /**
+   * Closes all windows of a workspace, e.g. when it is deleted
+   */
+  closeWorkspace(workspaceId: string): void {
+    this.windows.forEach((record) => {
+      if (record.workspaceId === workspaceId) {
+        record.winbox.close(true);
+      }
+    });
   }
 
   subscribe(callback: WindowCallback): () => void {
@@ -174,97 +331,196 @@ class WindowManager {
     };
   }
 
-  private updateActiveWindow(activeId: string) {
-    this.windows.forEach((record, id) => {
-      record.isActive = id === activeId;
+  /**
+   * Arranges all non-minimized windows in the area right of the sidebar,
+   * keeping their stacking order
+   * @param mode - split left/right, grid or cascade
+   */
+  applyLayout(mode: LayoutMode): void {
+    const records = this.getWindows()
+      .filter((record) => !record.isMinimized)
+      .sort((a, b) => (a.winbox.index ?? 0) - (b.winbox.index ?? 0));
+    const rects = computeLayout(mode, records.length, getAvailableWindowArea());
+
+    records.forEach((record, i) => {
+      this.placeWindow(record, rects[i], false);
     });
-    this.notifyListeners();
   }
 
-  private checkWindowStates() {
-    let needsUpdate = false;
+  /**
+   * Subscribes to layout changes: windows opened, closed, moved, resized,
+   * minimized, restored or focused
+   */
+  subscribeLayout(callback: () => void): () => void {
+    this.layoutListeners.add(callback);
+    return () => {
+      this.layoutListeners.delete(callback);
+    };
+  }
 
-    this.windows.forEach((record, id) => {
-      const winbox = record.winbox;
+  /**
+   * Captures the use-case windows of the active workspace in list order with
+   * their geometry, minimized and pinned state and z-order
+   */
+  getSnapshot(): WorkspaceSnapshot {
+    const records = this.getWindows().filter((record) => record.useCaseId !== undefined);
+    const backToFront = [...records].sort((a, b) => (a.winbox.index ?? 0) - (b.winbox.index ?? 0));
+    const windows = records.map((record) => ({
+      useCaseId: record.useCaseId as string,
+      title: record.title,
+      x: record.winbox.x,
+      y: record.winbox.y,
+      width: record.winbox.width,
+      height: record.winbox.height,
+      isMinimized: record.isMinimized,
+      isFitted: Boolean(record.winbox.isFitted),
+      isPinned: record.isPinned,
+      stackIndex: backToFront.indexOf(record),
+    }));
+
+    return {
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      windows,
+    };
+  }
 
-      const isClosed = !document.body.contains(winbox.window as HTMLElement);
-      if (isClosed) {
-        this.windows.delete(id);
-        needsUpdate = true;
-        return;
-      }
+  private placeWindow(record: WindowRecord, rect: WindowArea, isFitted: boolean): void {
+    // Fitted windows follow the available area; tiled ones keep their rectangle
+    record.winbox.isFitted = isFitted;
+    applyWindowArea(record.winbox, rect);
+    this.syncDisplayState(record);
+  }
 
-      // Only update if the winbox state differs from our internal state
-      const isMinimized = winbox.min;
-      if (record.isMinimized !== isMinimized) {
-        record.isMinimized = isMinimized;
-        needsUpdate = true;
-      }
-    });
+  // Wraps a WinBox callback, calling the window's own handler first
+  private hook(winbox: any, name: string, handler: () => void): void {
+    const original = winbox[name];
+    winbox[name] = (...args: unknown[]) => {
+      const result = original?.apply(winbox, args);
+      handler();
+      return result;
+    };
+  }
 
-    if (needsUpdate) {
-      this.notifyListeners();
+  // Moves a window to another state if the state machine allows it
+  private transition(record: WindowRecord, next: WindowState): void {
+    if (!canTransition(record.state, next)) return;
+
+    record.state = next;
+    record.isMinimized = next === 'minimized';
+    if (next === 'closed') {
+      this.windows.delete(record.id);
     }
+    this.notifyListeners();
   }
 
-  updateWindowState(id: string, state: Partial<{ isMinimized: boolean; isActive: boolean }>): void {
-    // Use the same debounced approach
-    this.debouncedStateUpdate(id, state);
+  // Geometry changed: report it, and follow the window in and out of the fitted state
+  private syncDisplayState(record: WindowRecord): void {
+    const next = getDisplayState(record.winbox);
+    if (record.state !== 'opening' && canTransition(record.state, next)) {
+      this.transition(record, next);
+    } else {
+      this.notifyLayoutListeners();
+    }
   }
 
-  private debouncedStateUpdate(id: string, newState: Partial<{ isMinimized: boolean; isActive: boolean }>): void {
-    // Clear any existing timeout for this window
-    if (this.stateUpdateTimeouts.has(id)) {
-      window.clearTimeout(this.stateUpdateTimeouts.get(id));
+  private setActive(id: string, isActive: boolean): void {
+    let changed = false;
+    this.windows.forEach((record) => {
+      const next = isActive ? record.id === id : record.isActive && record.id !== id;
+      if (record.isActive !== next) {
+        record.isActive = next;
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.notifyListeners();
     }
+  }
 
-    // Set a new timeout to update the state
-    const timeoutId = window.setTimeout(() => {
-      const record = this.windows.get(id);
-      if (record) {
-        let changed = false;
-
-        if (newState.isMinimized !== undefined && record.isMinimized !== newState.isMinimized) {
-          record.isMinimized = newState.isMinimized;
-          changed = true;
-        }
-
-        if (newState.isActive !== undefined && record.isActive !== newState.isActive) {
-          record.isActive = newState.isActive;
-          changed = true;
-        }
-
-        if (changed) {
-          this.notifyListeners();
-        }
-      }
+  // Windows closed by WinBox or removed from the DOM by anything else
+  private handleMutations = (mutations: MutationRecord[]) => {
+    mutations.forEach((mutation) => {
+      mutation.removedNodes.forEach((node) => {
+        if (node.isConnected) return;
+        this.windows.forEach((record) => {
+          if (record.winbox.window === node) {
+            this.transition(record, 'closed');
+          }
+        });
+      });
+    });
+  };
+
+  private handlePointerDown = () => {
+    this.pointer.isDown = true;
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    this.pointer.x = event.clientX;
+    this.pointer.y = event.clientY;
+  };
+
+  private handlePointerUp = () => {
+    this.pointer.isDown = false;
+    const drag = this.drag;
+    this.drag = null;
+    this.showSnapPreview(null);
+
+    const record = drag?.edge ? this.windows.get(drag.id) : undefined;
+    if (record && drag?.edge) {
+      const area = getAvailableWindowArea();
+      this.placeWindow(record, getSnapArea(drag.edge, area), drag.edge === 'top');
+    }
+  };
 
-      // Clean up the timeout map
-      this.stateUpdateTimeouts.delete(id);
-    }, 0); // Use minimal delay to allow event loop to process
+  private trackDrag(id: string): void {
+    const edge = getSnapEdge(this.pointer, getAvailableWindowArea());
+    this.drag = { id, edge };
+    this.showSnapPreview(edge ? getSnapArea(edge, getAvailableWindowArea()) : null);
+  }
 
-    // Store the timeout ID
-    this.stateUpdateTimeouts.set(id, timeoutId);
+  private showSnapPreview(rect: WindowArea | null): void {
+    if (!rect) {
+      this.snapPreview?.remove();
+      this.snapPreview = null;
+      return;
+    }
+
+    if (!this.snapPreview) {
+      this.snapPreview = document.createElement('div');
+      this.snapPreview.className = 'wb-snap-preview';
+      document.body.appendChild(this.snapPreview);
+    }
+    Object.assign(this.snapPreview.style, {
+      left: `${rect.x}px`,
+      top: `${rect.y}px`,
+      width: `${rect.width}px`,
+      height: `${rect.height}px`,
+    });
   }
 
   private notifyListeners(): void {
     const windows = this.getWindows();
     this.listeners.forEach((listener) => listener(windows));
+    this.notifyLayoutListeners();
   }
 
-  destroy() {
-    if (this.focusCheckInterval) {
-      window.clearInterval(this.focusCheckInterval);
-      this.focusCheckInterval = null;
-    }
+  private notifyLayoutListeners(): void {
+    this.layoutListeners.forEach((listener) => listener());
+  }
 
-    // Clear all pending timeouts
-    this.stateUpdateTimeouts.forEach(timeoutId => {
-      window.clearTimeout(timeoutId);
-    });
-    this.stateUpdateTimeouts.clear();
+  destroy() {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.initialized = false;
+
+    document.removeEventListener('pointerdown', this.handlePointerDown, true);
+    document.removeEventListener('pointermove', this.handlePointerMove, true);
+    document.removeEventListener('pointerup', this.handlePointerUp, true);
+    this.showSnapPreview(null);
   }
 }
 
 export const windowManager = new WindowManager();
-export type { WindowRecord };
+export { WindowManager };
+export type { WindowRecord, LayoutMode, WindowState };
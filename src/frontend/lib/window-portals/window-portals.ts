@@ -0,0 +1,57 @@
+import type { ReactElement } from 'react';
+
+/**
+ * React content of a WinBox window, rendered by WindowPortalHost into the window's body
+ */
+export interface WindowPortal {
+  id: string;
+  container: HTMLElement;
+  element: ReactElement;
+}
+
+/**
+ * React content of WinBox windows. The elements are rendered through portals by
+ * WindowPortalHost, part of the app's tree, so they share its context and state.
+ */
+export namespace WindowPortalUtils {
+  let portals: WindowPortal[] = [];
+  let nextId = 0;
+  const listeners: Set<(portals: WindowPortal[]) => void> = new Set();
+
+  function setPortals(next: WindowPortal[]): void {
+    portals = next;
+    listeners.forEach((listener) => listener(portals));
+  }
+
+  /**
+   * Gets the content rendered into windows
+   * @returns Portals, in the order they were opened
+   */
+  export function getPortals(): WindowPortal[] {
+    return portals;
+  }
+
+  /**
+   * Subscribes to portals being opened and closed
+   * @param listener - Called with every portal after each change
+   * @returns Function that removes the listener
+   */
+  export function subscribe(listener: (portals: WindowPortal[]) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Renders an element into a container through the app's tree
+   * @param container - Element that hosts the content
+   * @param element - React content
+   * @returns Function that unmounts the content
+   */
+  export function open(container: HTMLElement, element: ReactElement): () => void {
+    const id = `portal-${++nextId}`;
+    setPortals([...portals, { id, container, element }]);
+    return () => setPortals(portals.filter((portal) => portal.id !== id));
+  }
+}
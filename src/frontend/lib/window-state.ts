@@ -0,0 +1,38 @@
+// Lifecycle of a WinBox window, driven by its callbacks and by DOM removal
+
+/**
+ * State of a window. Maximized means fitted to the area right of the sidebar,
+ * which is how windows of this app are maximized.
+ */
+export type WindowState = 'opening' | 'normal' | 'minimized' | 'maximized' | 'closing' | 'closed';
+
+// States each state may move to; any other change is ignored
+const transitions: Record<WindowState, readonly WindowState[]> = {
+  opening: ['normal', 'minimized', 'maximized', 'closing', 'closed'],
+  normal: ['minimized', 'maximized', 'closing', 'closed'],
+  minimized: ['normal', 'maximized', 'closing', 'closed'],
+  maximized: ['normal', 'minimized', 'closing', 'closed'],
+  // A window is only closing once its close was not cancelled
+  closing: ['closed'],
+  closed: [],
+};
+
+/**
+ * Checks whether a window may move from one state to another
+ * @param from - Current state
+ * @param to - Next state
+ * @returns True if allowed; false for unknown moves and for staying in the same state
+ */
+export function canTransition(from: WindowState, to: WindowState): boolean {
+  return transitions[from].includes(to);
+}
+
+/**
+ * Reads the displayed state of an open WinBox
+ * @param winbox - WinBox instance
+ * @returns Minimized, maximized (fitted) or normal
+ */
+export function getDisplayState(winbox: { min?: boolean; isFitted?: boolean }): WindowState {
+  if (winbox.min) return 'minimized';
+  return winbox.isFitted ? 'maximized' : 'normal';
+}
@@ -0,0 +1,294 @@
+import { api } from '../../../shared/api';
+import type {
+  Workspace,
+  WorkspaceSnapshot,
+  WorkspaceState,
+  WorkspaceWindow,
+} from '../../../shared/ipc-channels';
+import { type WindowArea, getAvailableWindowArea } from '../../utils/window-area';
+import { UseCaseUtils } from '../use-cases/use-cases';
+import { windowManager } from '../window-manager';
+
+/**
+ * Saves named WinBox workspaces to the main-process config, switches between
+ * them and restores the active one on launch
+ */
+export namespace WorkspaceUtils {
+  const saveDelayMs = 1000;
+  // Smallest size a restored window is shrunk to
+  const minWidth = 300;
+  const minHeight = 200;
+  let restoring: Promise<number> | null = null;
+  let state: WorkspaceState | null = null;
+  let saveTimer: number | undefined;
+  const listeners: Set<(state: WorkspaceState) => void> = new Set();
+
+  /**
+   * Fits saved window geometry into the current window area, so that snapshots
+   * taken on a larger screen or with the sidebar closed stay reachable
+   * @param saved - Saved window
+   * @param area - Area right of the sidebar
+   * @returns Geometry inside the area
+   */
+  export function fitToArea(saved: WorkspaceWindow, area: WindowArea): WorkspaceWindow {
+    if (saved.isFitted) {
+      return { ...saved, x: area.x, y: area.y, width: area.width, height: area.height };
+    }
+
+    const width = Math.min(Math.max(saved.width, minWidth), area.width);
+    const height = Math.min(Math.max(saved.height, minHeight), area.height);
+    const clamp = (value: number, min: number, max: number) =>
+      Math.min(Math.max(value, min), max);
+
+    return {
+      ...saved,
+      width,
+      height,
+      x: clamp(saved.x, area.x, area.x + area.width - width),
+      y: clamp(saved.y, area.y, area.y + area.height - height),
+    };
+  }
+
+  /**
+   * Shows the active workspace and reopens its windows in list order, unless
+   * restoring is turned off. Windows of use cases that no longer exist are skipped.
+   * Runs once per page load; later calls return the first result.
+   * @returns Number of restored windows
+   */
+  export function restore(): Promise<number> {
+    restoring ??= restoreActive();
+    return restoring;
+  }
+
+  async function restoreActive(): Promise<number> {
+    const loaded = await refresh();
+    if (!loaded) return 0;
+
+    windowManager.setActiveWorkspace(loaded.activeId);
+    const active = loaded.workspaces.find((workspace) => workspace.id === loaded.activeId);
+    return loaded.restoreOnLaunch && active ? openSnapshot(active.snapshot) : 0;
+  }
+
+  async function openSnapshot(snapshot: WorkspaceSnapshot): Promise<number> {
+    const stack: { id: string; stackIndex: number }[] = [];
+    for (const [index, saved] of snapshot.windows.entries()) {
+      if (!UseCaseUtils.getUseCase(saved.useCaseId)) continue;
+
+      try {
+        // Snapshots may hold several instances of the same use case
+        const winbox: any = await UseCaseUtils.openWindow(saved.useCaseId, {
+          title: saved.title,
+          newInstance: true,
+        });
+        if (!winbox) continue;
+
+        const geometry = fitToArea(saved, getAvailableWindowArea());
+        winbox.isFitted = geometry.isFitted;
+        winbox.resize(geometry.width, geometry.height).move(geometry.x, geometry.y);
+        if (geometry.isMinimized) {
+          winbox.minimize();
+        }
+
+        const record = windowManager.getWindows().find((r) => r.winbox === winbox);
+        if (record) {
+          windowManager.setPinned(record.id, Boolean(saved.isPinned));
+          stack.push({ id: record.id, stackIndex: saved.stackIndex ?? index });
+        }
+      } catch (error) {
+        console.error(`Failed to restore window '${saved.title}':`, error);
+      }
+    }
+
+    // Windows open in list order; restack them as they were saved
+    windowManager.stackWindows(
+      stack.sort((a, b) => a.stackIndex - b.stackIndex).map((entry) => entry.id)
+    );
+    return stack.length;
+  }
+
+  async function refresh(): Promise<WorkspaceState | null> {
+    const result = await api.call('get-workspaces');
+    if (!result.success || !result.data) return null;
+
+    state = result.data;
+    notify();
+    return state;
+  }
+
+  function notify(): void {
+    if (!state) return;
+    const current = state;
+    listeners.forEach((listener) => listener(current));
+  }
+
+  // Saves the active workspace now, dropping a pending debounced save
+  async function saveActive(): Promise<void> {
+    window.clearTimeout(saveTimer);
+    saveTimer = undefined;
+
+    const current = state;
+    const active = current?.workspaces.find((workspace) => workspace.id === current.activeId);
+    if (!current || !active) return;
+
+    const snapshot: WorkspaceSnapshot = windowManager.getSnapshot();
+    state = {
+      ...current,
+      workspaces: current.workspaces.map((workspace) =>
+        workspace.id === active.id ? { ...workspace, snapshot } : workspace
+      ),
+    };
+    await api.call('save-workspace', active.id, snapshot);
+  }
+
+  /**
+   * Subscribes to the list of workspaces and the active one
+   * @param callback - Called now if already loaded, and on every change
+   * @returns Function that unsubscribes
+   */
+  export function subscribe(callback: (state: WorkspaceState) => void): () => void {
+    listeners.add(callback);
+    if (state) callback(state);
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Switches to another workspace: saves the current one, hides its windows and
+   * shows the target's, reopening them from the snapshot if none are open yet
+   * @param id - Workspace id
+   */
+  export async function switchTo(id: string): Promise<void> {
+    const target = state?.workspaces.find((workspace) => workspace.id === id);
+    if (!state || !target || state.activeId === id) return;
+
+    await saveActive();
+    const hasWindows = windowManager.hasWorkspaceWindows(id);
+    windowManager.setActiveWorkspace(id);
+    state = { ...state, activeId: id };
+    notify();
+
+    if (!hasWindows) {
+      await openSnapshot(target.snapshot);
+    }
+    await api.call('set-active-workspace', id);
+  }
+
+  /**
+   * Creates an empty workspace and switches to it
+   * @param name - Workspace name
+   * @returns The new workspace, or null if it could not be saved
+   */
+  export async function create(name: string): Promise<Workspace | null> {
+    const result = await api.call('create-workspace', name);
+    if (!result.success || !result.data || !state) return null;
+
+    state = { ...state, workspaces: [...state.workspaces, result.data] };
+    notify();
+    await switchTo(result.data.id);
+    return result.data;
+  }
+
+  /**
+   * Renames a workspace
+   * @param id - Workspace id
+   * @param name - New name
+   */
+  export async function rename(id: string, name: string): Promise<void> {
+    await api.call('rename-workspace', id, name);
+    await refresh();
+  }
+
+  /**
+   * Deletes a workspace and closes its windows. Deleting the active workspace
+   * switches to the first remaining one; the last workspace cannot be deleted.
+   * @param id - Workspace id
+   * @returns True if deleted
+   */
+  export async function remove(id: string): Promise<boolean> {
+    if (state?.activeId === id) {
+      const next = state.workspaces.find((workspace) => workspace.id !== id);
+      if (!next) return false;
+      await switchTo(next.id);
+    }
+
+    const result = await api.call('delete-workspace', id);
+    if (!result.success) return false;
+
+    windowManager.closeWorkspace(id);
+    await refresh();
+    return true;
+  }
+
+  /**
+   * Saves the active workspace and exports all workspaces to a JSON file
+   * chosen by the user
+   * @returns File path, or null if cancelled or failed
+   */
+  export async function exportAll(): Promise<string | null> {
+    await saveActive();
+    const result = await api.call('export-workspaces');
+    return result.success ? (result.data ?? null) : null;
+  }
+
+  /**
+   * Imports workspaces from a JSON file chosen by the user, next to the existing ones
+   * @returns Number of imported workspaces
+   */
+  export async function importFile(): Promise<number> {
+    const result = await api.call('import-workspaces');
+    if (!result.success || !result.data) return 0;
+
+    await refresh();
+    return result.data.length;
+  }
+
+  /**
+   * Saves a snapshot whenever the layout changes, debounced
+   * @returns Function that stops saving
+   */
+  export function startAutoSave(): () => void {
+    if (!api.isAvailable()) {
+      return () => {};
+    }
+
+    const schedule = () => {
+      window.clearTimeout(saveTimer);
+      saveTimer = window.setTimeout(saveActive, saveDelayMs);
+    };
+    // Do not lose the last change when the app closes within the delay
+    const flush = () => {
+      if (saveTimer !== undefined) saveActive();
+    };
+
+    const unsubscribe = windowManager.subscribeLayout(schedule);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('beforeunload', flush);
+      window.clearTimeout(saveTimer);
+      saveTimer = undefined;
+    };
+  }
+
+  /**
+   * Reads whether the workspace is restored on launch
+   * @returns True if restoring is on, false if off or unavailable
+   */
+  export async function getRestoreOnLaunch(): Promise<boolean> {
+    const result = await api.call('get-workspaces');
+    return result.success && result.data ? result.data.restoreOnLaunch : false;
+  }
+
+  /**
+   * Turns restoring the workspace on launch on or off
+   * @param enabled - True to restore on launch
+   */
+  export async function setRestoreOnLaunch(enabled: boolean): Promise<void> {
+    await api.call('set-workspace-restore', enabled);
+    if (state) {
+      state = { ...state, restoreOnLaunch: enabled };
+      notify();
+    }
+  }
+}
@@ -240,6 +240,16 @@ export const applyGlobalStyles = () => {
       }
     }
 
+    .wb-snap-preview {
+      position: fixed;
+      z-index: 9999;
+      pointer-events: none;
+      background: rgba(54, 215, 183, 0.12);
+      border: 2px solid ${theme.colors.accentColor};
+      border-radius: 12px;
+      transition: all 0.12s ease;
+    }
+
     .wb-body {
       padding: 0 !important;
       background: transparent !important;
@@ -281,55 +291,15 @@ export const applyGlobalStyles = () => {
       border-radius: 2px !important;
     }
 
-    .winbox-content h4 {
-      margin: 20px 0 10px !important;
-      font-size: 1.05rem !important;
-      font-weight: 600 !important;
-      color: ${theme.colors.textPrimary} !important;
-    }
-
-    .winbox-content p {
-      margin-bottom: 16px !important;
+    .winbox-content .winbox-loading {
       color: ${theme.colors.textSecondary} !important;
-      line-height: 1.7 !important;
+      font-style: italic !important;
+      animation: winbox-loading-pulse 1.2s ease-in-out infinite !important;
     }
 
-    .winbox-content ul {
-      margin: 0 0 16px 24px !important;
-      padding-left: 12px !important;
-    }
-
-    .winbox-content li {
-      margin-bottom: 10px !important;
-      color: ${theme.colors.textSecondary} !important;
-      position: relative !important;
-    }
-
-    .winbox-content li::before {
-      content: '•' !important;
-      color: ${theme.colors.accentColor} !important;
-      display: inline-block !important;
-      width: 1em !important;
-      margin-left: -1em !important;
-    }
-
-    .winbox-content code {
-      background: ${theme.colors.bgTertiary} !important;
-      padding: 3px 8px !important;
-      border-radius: 6px !important;
-      font-family: ${theme.typography.mono} !important;
-      font-size: 0.85em !important;
-      color: ${theme.colors.accentColor} !important;
-      border: 1px solid rgba(54, 215, 183, 0.2) !important;
-    }
-
-    .winbox-content pre {
-      background: ${theme.colors.bgTertiary} !important;
-      padding: 16px !important;
-      border-radius: 8px !important;
-      overflow-x: auto !important;
-      margin: 16px 0 !important;
-      border: 1px solid rgba(54, 215, 183, 0.15) !important;
+    @keyframes winbox-loading-pulse {
+      0%, 100% { opacity: 1; }
+      50% { opacity: 0.4; }
     }
 
     @keyframes fadeInUp {
@@ -386,6 +356,113 @@ export const applyGlobalStyles = () => {
   `;
 };
 
+// Styles of window content, scoped to its shadow root or sandboxed frame
+export const contentHostStyles = `
+  :host, body {
+    display: block;
+    margin: 0;
+    color: ${theme.colors.textSecondary};
+    font-family: ${theme.typography.ui};
+    font-size: 0.95rem;
+    line-height: 1.7;
+  }
+
+  h2, h3, h4 {
+    margin: 20px 0 10px;
+    font-size: 1.05rem;
+    font-weight: 600;
+    color: ${theme.colors.textPrimary};
+  }
+
+  p {
+    margin: 0 0 16px;
+  }
+
+  ul {
+    margin: 0 0 16px 24px;
+    padding-left: 12px;
+    list-style: none;
+  }
+
+  li {
+    margin-bottom: 10px;
+    position: relative;
+  }
+
+  li::before {
+    content: '•';
+    color: ${theme.colors.accentColor};
+    display: inline-block;
+    width: 1em;
+    margin-left: -1em;
+  }
+
+  a {
+    color: ${theme.colors.accentColor};
+  }
+
+  blockquote {
+    margin: 0 0 16px;
+    padding-left: 12px;
+    border-left: 3px solid ${theme.colors.accentColor};
+  }
+
+  .topic-toc {
+    margin-bottom: 16px;
+    padding: 10px 14px;
+    border-radius: 8px;
+    background: ${theme.colors.bgTertiary};
+  }
+
+  .topic-toc ul {
+    margin: 0;
+    padding: 0;
+  }
+
+  .topic-toc li {
+    margin-bottom: 4px;
+  }
+
+  .topic-toc li::before {
+    content: none;
+  }
+
+  .topic-toc .toc-level-3 {
+    margin-left: 16px;
+  }
+
+  code {
+    background: ${theme.colors.bgTertiary};
+    padding: 3px 8px;
+    border-radius: 6px;
+    font-family: ${theme.typography.mono};
+    font-size: 0.85em;
+    color: ${theme.colors.accentColor};
+    border: 1px solid rgba(54, 215, 183, 0.2);
+  }
+
+  pre {
+    background: ${theme.colors.bgTertiary};
+    padding: 16px;
+    border-radius: 8px;
+    overflow-x: auto;
+    margin: 16px 0;
+    border: 1px solid rgba(54, 215, 183, 0.15);
+  }
+
+  pre code {
+    padding: 0;
+    border: none;
+  }
+
+  mark {
+    background: linear-gradient(135deg, ${theme.colors.highlightBg}, #f59e0b);
+    color: ${theme.colors.highlightText};
+    padding: 2px 4px;
+    border-radius: 4px;
+  }
+`;
+
 // App container component
 export const AppContainer = styled('div')`
   font-family: ${theme.typography.ui};
@@ -477,6 +554,25 @@ export const HeaderContent = styled('div')`
   z-index: 2;
 `;
 
+// Action on the right of the header
+export const HeaderButton = styled('button')`
+  position: relative;
+  z-index: 2;
+  padding: 6px 12px;
+  background: rgba(18, 24, 38, 0.8);
+  border: 1px solid rgba(54, 215, 183, 0.35);
+  border-radius: 6px;
+  color: ${theme.colors.textPrimary};
+  cursor: pointer;
+  font-size: 12px;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background: rgba(26, 34, 51, 0.9);
+    border-color: rgba(54, 215, 183, 0.6);
+  }
+`;
+
 export const HeaderTitle = styled('h1')`
   font-size: 1.6rem;
   font-weight: 800;
@@ -631,6 +727,71 @@ export const TabButton = styled('button')<{ isActive: boolean }>`
   }
 `;
 
+// Number of cards next to a tab or tag label
+export const TabCount = styled('span')`
+  margin-left: 6px;
+  font-size: 0.75em;
+  font-weight: 500;
+  opacity: 0.7;
+`;
+
+// Order and visibility of the tabs
+export const TabSettings = styled('ul')`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 8px 16px;
+  margin: -12px 0 20px;
+  padding: 12px;
+  list-style: none;
+  border: 1px solid ${theme.colors.borderColor};
+  border-radius: 12px;
+  background: rgba(18, 24, 38, 0.7);
+
+  li {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+  }
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    margin-right: 4px;
+    font-size: 0.85rem;
+    color: ${theme.colors.textPrimary};
+  }
+`;
+
+// Tag filters below the tabs; a card must have every selected tag
+export const TagFilter = styled('div')`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  align-items: center;
+  gap: 6px;
+  margin: -12px 0 24px;
+  padding: 0 8px;
+`;
+
+export const TagChip = styled('button')<{ isActive: boolean }>`
+  padding: 4px 10px;
+  font-size: 0.75rem;
+  border: 1px solid ${(props) =>
+    props.isActive ? 'rgba(54, 215, 183, 0.6)' : 'rgba(37, 48, 71, 0.9)'
+  };
+  border-radius: 20px;
+  background: ${(props) => (props.isActive ? 'rgba(54, 215, 183, 0.15)' : 'transparent')};
+  color: ${(props) => (props.isActive ? theme.colors.accentColor : theme.colors.textSecondary)};
+  cursor: pointer;
+
+  &:hover {
+    color: ${theme.colors.textPrimary};
+    border-color: rgba(54, 215, 183, 0.8);
+  }
+`;
+
 // Cards list component
 export const CardsList = styled('div')`
   display: grid;
@@ -710,6 +871,20 @@ export const CardContent = styled('div')`
   z-index: 2;
 `;
 
+// Card excerpt component: the first lines of the topic
+export const CardExcerpt = styled('div')`
+  font-size: 0.8rem;
+  line-height: 1.4;
+  color: ${theme.colors.textSecondary};
+  margin-bottom: 8px;
+  display: -webkit-box;
+  -webkit-line-clamp: 2;
+  -webkit-box-orient: vertical;
+  overflow: hidden;
+  position: relative;
+  z-index: 2;
+`;
+
 // Card title component
 export const CardTitle = styled('div')`
   font-size: 1rem;
@@ -940,6 +1115,29 @@ export const HomeText = styled('span')`
   font-size: 13px;
 `;
 
+export const LayoutBar = styled('div')`
+  display: flex;
+  gap: 6px;
+  margin-top: 8px;
+`;
+
+export const LayoutButton = styled('button')`
+  flex: 1;
+  padding: 6px 0;
+  background: ${theme.colors.cardBg};
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 6px;
+  color: ${theme.colors.textSecondary};
+  cursor: pointer;
+  font-size: 14px;
+  transition: all 0.2s ease;
+
+  &:hover {
+    border-color: ${theme.colors.accentColor};
+    color: ${theme.colors.textPrimary};
+  }
+`;
+
 export const SidebarContent = styled('div')`
   flex: 1;
   overflow-y: auto;
@@ -960,7 +1158,11 @@ export const WindowList = styled('ul')`
   padding: 0;
 `;
 
-export const WindowItem = styled('li')<{ isActive: boolean; isMinimized: boolean }>`
+export const WindowItem = styled('li')<{
+  isActive: boolean;
+  isMinimized: boolean;
+  isDropTarget?: boolean;
+}>`
   display: flex;
   align-items: center;
   gap: 10px;
@@ -972,6 +1174,7 @@ export const WindowItem = styled('li')<{ isActive: boolean; isMinimized: boolean
   background: ${(props) => (props.isActive ? theme.colors.accentColor : theme.colors.cardBg)};
   border: 1px solid ${(props) => (props.isActive ? theme.colors.accentColor : theme.colors.cardBorder)};
   opacity: ${(props) => (props.isMinimized ? 0.7 : 1)};
+  box-shadow: ${(props) => (props.isDropTarget ? `0 -2px 0 ${theme.colors.accentColor}` : 'none')};
 
   &:hover {
     background: ${(props) => (props.isActive ? theme.colors.accentColor : theme.colors.cardHover)};
@@ -1022,6 +1225,394 @@ export const WindowClose = styled('button')`
   }
 `;
 
+export const SidebarFooter = styled('div')`
+  padding: 12px;
+  border-top: 1px solid ${theme.colors.borderColor};
+`;
+
+export const SidebarOption = styled('label')`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 12px;
+  color: ${theme.colors.textSecondary};
+  cursor: pointer;
+
+  input {
+    accent-color: ${theme.colors.accentColor};
+    cursor: pointer;
+  }
+`;
+
+export const WorkspaceBar = styled('div')`
+  display: flex;
+  gap: 6px;
+  margin-bottom: 10px;
+`;
+
+export const WorkspaceSelect = styled('select')`
+  flex: 4;
+  min-width: 0;
+  padding: 5px 6px;
+  background: ${theme.colors.cardBg};
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 6px;
+  color: ${theme.colors.textPrimary};
+  font-size: 12px;
+
+  &:focus {
+    outline: none;
+    border-color: ${theme.colors.accentColor};
+  }
+`;
+
+export const WorkspaceInput = styled('input')`
+  flex: 4;
+  min-width: 0;
+  padding: 5px 6px;
+  background: ${theme.colors.cardBg};
+  border: 1px solid ${theme.colors.accentColor};
+  border-radius: 6px;
+  color: ${theme.colors.textPrimary};
+  font-size: 12px;
+
+  &:focus {
+    outline: none;
+  }
+`;
+
+// Several instances of the same topic are listed under one entry
+export const WindowGroup = styled('li')`
+  margin-bottom: 4px;
+`;
+
+export const WindowGroupTitle = styled('div')`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 6px 12px;
+  font-size: 12px;
+  font-weight: 600;
+  color: ${theme.colors.textSecondary};
+`;
+
+export const WindowGroupList = styled('ul')`
+  list-style: none;
+  margin: 0;
+  padding: 0 0 0 12px;
+  border-left: 1px solid ${theme.colors.cardBorder};
+`;
+
+export const WindowSectionTitle = styled('li')`
+  margin: 12px 0 6px;
+  font-size: 11px;
+  font-weight: 600;
+  color: ${theme.colors.textSecondary};
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+`;
+
+// Why the dragged window cannot be dropped where it is
+export const DropHint = styled('li')`
+  margin-bottom: 8px;
+  padding: 6px 10px;
+  border-radius: 6px;
+  font-size: 12px;
+  color: ${theme.colors.textSecondary};
+  background: ${theme.colors.cardBg};
+`;
+
+export const WindowAction = styled('button')`
+  background: none;
+  border: none;
+  color: ${theme.colors.textSecondary};
+  cursor: pointer;
+  font-size: 13px;
+  padding: 0 4px;
+  opacity: 0.7;
+
+  &:hover {
+    color: ${theme.colors.accentColor};
+    opacity: 1;
+  }
+`;
+
+// Hover preview of a window, next to the sidebar
+export const WindowPreviewBox = styled('div')`
+  position: fixed;
+  left: calc(${theme.sidebar.width} + 8px);
+  z-index: 99999;
+  padding: 8px;
+  background: ${theme.colors.bgSecondary};
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 8px;
+  box-shadow: ${theme.shadows.hover};
+  pointer-events: none;
+`;
+
+export const PreviewTitle = styled('div')`
+  margin-bottom: 6px;
+  font-size: 12px;
+  color: ${theme.colors.textSecondary};
+`;
+
+export const PreviewFrame = styled('div')`
+  position: relative;
+  overflow: hidden;
+  border-radius: 4px;
+  background: #1a1a2e;
+`;
+
+// Interactive demos rendered as React content of use-case windows
+export const DemoPanel = styled('section')`
+  margin-top: 20px;
+  padding-top: 16px;
+  border-top: 1px solid ${theme.colors.borderColor};
+`;
+
+export const DemoHeading = styled('h4')`
+  margin: 0 0 10px;
+  font-size: 1rem;
+  color: ${theme.colors.textPrimary};
+`;
+
+export const DemoStats = styled('dl')`
+  display: grid;
+  grid-template-columns: max-content 1fr;
+  gap: 4px 16px;
+  margin: 0 0 12px;
+  font-size: 0.85rem;
+
+  dt {
+    color: ${theme.colors.textSecondary};
+  }
+
+  dd {
+    margin: 0;
+    color: ${theme.colors.textPrimary};
+    font-family: ${theme.typography.mono};
+  }
+`;
+
+export const DemoActions = styled('div')`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 12px;
+  font-size: 0.85rem;
+`;
+
+export const DemoButton = styled('button')`
+  padding: 6px 12px;
+  background: ${theme.colors.cardBg};
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 6px;
+  color: ${theme.colors.textPrimary};
+  cursor: pointer;
+  font-size: 12px;
+
+  &:hover:not(:disabled) {
+    border-color: ${theme.colors.accentColor};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+// Editor of user topics: fields and Markdown on the left, live preview on the right
+export const EditorLayout = styled('div')`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+  gap: 16px;
+  height: 100%;
+  min-height: 320px;
+
+  @media (max-width: ${theme.breakpoints.mobile}) {
+    grid-template-columns: 1fr;
+  }
+`;
+
+export const EditorForm = styled('form')`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  min-height: 0;
+
+  label {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    font-size: 0.8rem;
+    color: ${theme.colors.textSecondary};
+  }
+
+  input,
+  textarea {
+    padding: 8px 10px;
+    background: ${theme.colors.bgPrimary};
+    border: 1px solid ${theme.colors.borderColor};
+    border-radius: 6px;
+    color: ${theme.colors.textPrimary};
+    font-size: 0.9rem;
+  }
+
+  input:focus,
+  textarea:focus {
+    outline: none;
+    border-color: ${theme.colors.accentColor};
+  }
+`;
+
+export const EditorMarkdown = styled('textarea')`
+  flex: 1;
+  min-height: 200px;
+  resize: none;
+  font-family: ${theme.typography.mono};
+  line-height: 1.5;
+`;
+
+export const EditorPreview = styled('section')`
+  min-height: 0;
+  overflow-y: auto;
+  padding: 12px 16px;
+  border: 1px solid ${theme.colors.borderColor};
+  border-radius: 8px;
+  background: ${theme.colors.bgSecondary};
+`;
+
+export const EditorStatus = styled('span')`
+  color: ${theme.colors.textSecondary};
+`;
+
+// Native window hosting a single use case, popped out of the WinBox desktop
+export const DetachedContainer = styled('div')`
+  display: flex;
+  flex-direction: column;
+  height: 100vh;
+  background: ${theme.colors.bgSecondary};
+`;
+
+export const DetachedHeader = styled('header')`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 10px 16px;
+  background: ${theme.colors.bgTertiary};
+  border-bottom: 1px solid ${theme.colors.borderColor};
+`;
+
+export const DockButton = styled('button')`
+  padding: 6px 12px;
+  background: ${theme.colors.cardBg};
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 6px;
+  color: ${theme.colors.textSecondary};
+  cursor: pointer;
+  font-size: 12px;
+  transition: all 0.2s ease;
+
+  &:hover {
+    border-color: ${theme.colors.accentColor};
+    color: ${theme.colors.textPrimary};
+  }
+`;
+
+export const DetachedBody = styled('main')`
+  flex: 1;
+  min-height: 0;
+
+  .winbox-content {
+    border-radius: 0 !important;
+  }
+`;
+
+// Command palette, above every WinBox window
+export const PaletteBackdrop = styled('div')`
+  position: fixed;
+  inset: 0;
+  z-index: 100000;
+  display: flex;
+  justify-content: center;
+  align-items: flex-start;
+  padding-top: 12vh;
+  background: rgba(5, 10, 20, 0.55);
+`;
+
+export const Palette = styled('div')`
+  width: min(560px, 90vw);
+  max-height: 60vh;
+  display: flex;
+  flex-direction: column;
+  background: ${theme.colors.bgSecondary};
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 12px;
+  box-shadow: ${theme.shadows.hover};
+  overflow: hidden;
+`;
+
+export const PaletteInput = styled('input')`
+  padding: 14px 16px;
+  background: transparent;
+  border: none;
+  border-bottom: 1px solid ${theme.colors.borderColor};
+  color: ${theme.colors.textPrimary};
+  font-size: 15px;
+
+  &:focus {
+    outline: none;
+  }
+`;
+
+export const PaletteList = styled('ul')`
+  list-style: none;
+  margin: 0;
+  padding: 6px;
+  overflow-y: auto;
+`;
+
+export const PaletteItem = styled('li')<{ isSelected: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 8px 10px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 13px;
+  color: ${theme.colors.textPrimary};
+  background: ${(props) => (props.isSelected ? theme.colors.cardHover : 'transparent')};
+  border-left: 2px solid
+    ${(props) => (props.isSelected ? theme.colors.accentColor : 'transparent')};
+`;
+
+export const PaletteGroup = styled('span')`
+  flex-shrink: 0;
+  width: 64px;
+  font-size: 11px;
+  color: ${theme.colors.textSecondary};
+  text-transform: uppercase;
+  letter-spacing: 0.04em;
+`;
+
+export const PaletteShortcut = styled('kbd')`
+  margin-left: auto;
+  padding: 2px 6px;
+  border: 1px solid ${theme.colors.cardBorder};
+  border-radius: 4px;
+  font-family: inherit;
+  font-size: 11px;
+  color: ${theme.colors.textSecondary};
+`;
+
+export const PaletteEmpty = styled('div')`
+  padding: 16px;
+  font-size: 13px;
+  color: ${theme.colors.textSecondary};
+  text-align: center;
+`;
+
 // Sidebar toggle button component
 export const SidebarToggle = styled('button')`
   background: rgba(18, 24, 38, 0.8);
@@ -1,10 +0,0 @@
-// Export all frontend use-case modules for easy importing
-
-export { createElectronArchitectureWindow } from './electron-architecture/window';
-export { createElectronDevelopmentWindow } from './electron-development/window';
-export { createElectronIntroWindow } from './electron-intro/window';
-export { createElectronNativeApisWindow } from './electron-native-apis/window';
-export { createElectronPackagingWindow } from './electron-packaging/window';
-export { createElectronPerformanceWindow } from './electron-performance/window';
-export { createElectronSecurityWindow } from './electron-security/window';
-export { createElectronVersionsWindow } from './electron-versions/window';
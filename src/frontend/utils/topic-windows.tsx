@@ -0,0 +1,79 @@
+import TopicEditor from '../components/TopicEditor';
+import UserTopicView from '../components/UserTopicView';
+import { UseCaseUtils } from '../lib/use-cases/use-cases';
+import { UserTopicUtils } from '../lib/user-topics/user-topics';
+import { windowManager } from '../lib/window-manager';
+import { createWinBoxWindow } from './winbox-utils';
+
+// WinBox windows of user topics, by topic: "view:<id>" or "edit:<id>"
+const openWindows: Map<string, any> = new Map();
+
+// Brings an open window to the front; false if it has been closed
+const revealOpenWindow = (key: string): boolean => {
+  const winbox = openWindows.get(key);
+  const record = windowManager.getWindows().find((candidate) => candidate.winbox === winbox);
+  if (!record) {
+    openWindows.delete(key);
+    return false;
+  }
+  windowManager.reveal(record.id);
+  return true;
+};
+
+// Opens the editor of a user topic, or of a new topic without an id.
+// An open editor of the same topic is focused instead; editors of new topics
+// are only tracked once their first save gave them an id.
+export const createTopicEditorWindow = async (id?: string) => {
+  if (id && revealOpenWindow(`edit:${id}`)) return openWindows.get(`edit:${id}`);
+
+  let winbox: any = null;
+  const title = id ? `Edit: ${UserTopicUtils.getTopic(id)?.title ?? id}` : 'New topic';
+  winbox = await createWinBoxWindow({
+    title,
+    content: (
+      <TopicEditor
+        topicId={id}
+        onCreated={(createdId) => winbox && openWindows.set(`edit:${createdId}`, winbox)}
+        onDeleted={() => winbox?.close()}
+      />
+    ),
+    width: '900px',
+    height: '600px',
+  });
+  if (winbox && id) openWindows.set(`edit:${id}`, winbox);
+  return winbox;
+};
+
+// Opens the read view of a user topic; unless newInstance is set, an open
+// view of the same topic is focused instead
+export const createUserTopicWindow = async (id: string, newInstance = false) => {
+  const topic = UserTopicUtils.getTopic(id);
+  if (!topic) return null;
+
+  const key = `view:${id}`;
+  if (!newInstance && revealOpenWindow(key)) return openWindows.get(key);
+
+  const winbox = await createWinBoxWindow({
+    title: topic.title,
+    content: <UserTopicView topicId={id} onEdit={() => createTopicEditorWindow(id)} />,
+    width: '500px',
+    height: '400px',
+  });
+  if (winbox) openWindows.set(key, winbox);
+  return winbox;
+};
+
+// Opens the window of any topic: the view of a user topic, or the window of a use case.
+// Cards and topic: links in window content open topics through here.
+export const openTopicWindow = async (id: string, newInstance = false) => {
+  if (UserTopicUtils.getTopic(id)) {
+    return createUserTopicWindow(id, newInstance);
+  }
+  const useCase = UseCaseUtils.getUseCase(id);
+  if (!useCase) return null;
+  return UseCaseUtils.openWindow(id, {
+    title: useCase.title,
+    content: useCase.content,
+    newInstance,
+  });
+};
@@ -1,75 +1,45 @@
 // Import winbox - it sets window.WinBox as a global
 import 'winbox/dist/css/winbox.min.css';
 import 'winbox/dist/js/winbox.min.js';
+import { type ReactElement, isValidElement } from 'react';
+import { type ContentIsolation, ContentHostUtils } from '../lib/content-host/content-host';
 import { windowManager } from '../lib/window-manager';
-
-// Get sidebar width from CSS variable or default
-function getSidebarWidth(): number {
-  // Default sidebar width
-  const defaultWidth = 220;
-
-  try {
-    // Check if sidebar is open by looking at the App element
-    const app = document.querySelector('.App');
-    if (app && app.classList.contains('sidebar-open')) {
-      // Try to get from CSS variable
-      const root = document.documentElement;
-      const computedStyle = getComputedStyle(root);
-      const sidebarWidth = computedStyle.getPropertyValue('--sidebar-width').trim();
-      if (sidebarWidth) {
-        return parseInt(sidebarWidth, 10) || defaultWidth;
-      }
-      return defaultWidth;
-    }
-    // Sidebar closed, return 0 offset
-    return 0;
-  } catch (e) {
-    return defaultWidth;
-  }
-}
-
-// Calculate available window area respecting sidebar
-function getAvailableWindowArea() {
-  const sidebarWidth = getSidebarWidth();
-  // Remove padding to make it truly fullscreen
-  const padding = 0; // No padding for fullscreen
-
-  const availableWidth = window.innerWidth - sidebarWidth - padding * 2;
-  const availableHeight = window.innerHeight - padding * 2;
-
-  return {
-    x: sidebarWidth + padding,
-    y: padding,
-    width: Math.max(availableWidth, 400),
-    height: Math.max(availableHeight, 300),
-  };
-}
-
-function applyWindowArea(winbox: any, area: ReturnType<typeof getAvailableWindowArea>) {
-  if (!winbox) return;
-  // Prevent recursion by checking if the dimensions are already correct
-  if (winbox.width !== area.width || winbox.height !== area.height) {
-    winbox.resize(area.width, area.height);
-  }
-  if (winbox.x !== area.x || winbox.y !== area.y) {
-    winbox.move(area.x, area.y);
-  }
-}
-
-// Shared function to create a WinBox window with consistent styling
+import { WindowPortalUtils } from '../lib/window-portals/window-portals';
+import { applyWindowArea, getAvailableWindowArea } from './window-area';
+
+// Shared function to create a WinBox window with consistent styling.
+// Content may be a promise: the window shows a loading state until it resolves.
+// Content is sanitized and rendered in a shadow root, or in a sandboxed frame if untrusted.
+// A React element is rendered through a portal of the app's tree (WindowPortalHost),
+// so it shares the app's providers and state, and is unmounted on close.
+// Use-case windows are keyed by their use case: unless newInstance is set, an open
+// window is restored and focused instead of creating another one.
 export const createWinBoxWindow = ({
   title,
   content,
   width = '500px',
   height = '400px',
   maximize = true, // Default to maximized
+  useCaseId,
+  newInstance = false,
+  isolation = 'shadow',
 }: {
   title: string;
-  content: string;
+  content: string | Promise<string> | ReactElement;
   width?: string;
   height?: string;
   maximize?: boolean;
+  // Use case the window belongs to, recorded in workspace snapshots
+  useCaseId?: string;
+  newInstance?: boolean;
+  isolation?: ContentIsolation;
 }) => {
+  const existing = useCaseId && !newInstance ? windowManager.findByUseCase(useCaseId) : undefined;
+  if (existing) {
+    windowManager.reveal(existing.id);
+    return Promise.resolve(existing.winbox);
+  }
+
   return new Promise((resolve, reject) => {
     // WinBox is set as a global by the imported script
     const WinBox = (window as any).WinBox;
@@ -88,7 +58,7 @@ export const createWinBoxWindow = ({
 
     const winbox = new WinBox({
       title: title,
-      html: `<div class="winbox-content"><h3 style="color: ${darkThemeColor};">${title}</h3><div style="color: ${darkThemeColor};" class="winbox-dynamic-content">Loading content...</div></div>`,
+      html: `<div class="winbox-content"><h3 style="color: ${darkThemeColor};"></h3><div style="color: ${darkThemeColor};" class="winbox-dynamic-content winbox-loading" aria-busy="true">Loading content...</div></div>`,
       width: maximize ? area.width : width,
       height: maximize ? area.height : height,
       x: maximize ? area.x : 'center',
@@ -100,11 +70,17 @@ export const createWinBoxWindow = ({
       border: 2,
     });
 
+    // The title is text, never markup
+    winbox.body.querySelector('h3').textContent = title;
+
+    // Fitted windows fill the available area and keep filling it when resized
+    winbox.isFitted = maximize;
     if (maximize) {
       applyWindowArea(winbox, area);
     }
 
     winbox.onmaximize = () => {
+      winbox.isFitted = true;
       const maxArea = getAvailableWindowArea();
       applyWindowArea(winbox, maxArea);
       return false;
@@ -112,26 +88,60 @@ export const createWinBoxWindow = ({
 
     // Also handle resize to ensure proper positioning
     winbox.onresize = () => {
+      if (!winbox.isFitted) return false;
       const area = getAvailableWindowArea();
       applyWindowArea(winbox, area);
       return false;
     };
 
-    // Set the content after the window is created
-    setTimeout(() => {
-      if (winbox && winbox.body) {
-        const contentDiv = winbox.body.querySelector('.winbox-dynamic-content');
-        if (contentDiv) {
-          contentDiv.innerHTML = content;
-        } else {
-          winbox.body.innerHTML = `<div class="winbox-content"><h3 style="color: ${darkThemeColor};">${title}</h3><div style="color: ${darkThemeColor};">${content}</div></div>`;
-        }
+    // Set the content after the window is created, or once it has loaded. Content
+    // that arrives after the window was closed is dropped, so nothing listens on.
+    let isClosed = false;
+    let unmountContent: (() => void) | undefined;
+    const takeContentDiv = (): HTMLElement | null => {
+      if (isClosed) return null;
+      const contentDiv: HTMLElement | null =
+        winbox?.body?.querySelector('.winbox-dynamic-content') ?? null;
+      contentDiv?.classList.remove('winbox-loading');
+      contentDiv?.removeAttribute('aria-busy');
+      return contentDiv;
+    };
+    const setContent = (html: string) => {
+      const contentDiv = takeContentDiv();
+      if (contentDiv) {
+        unmountContent = ContentHostUtils.mount(contentDiv, html, isolation);
       }
-    }, 10);
+    };
+    const mountElement = (element: ReactElement) => {
+      const contentDiv = takeContentDiv();
+      if (!contentDiv) return;
+
+      contentDiv.replaceChildren();
+      unmountContent = WindowPortalUtils.open(contentDiv, element);
+    };
+    winbox.onclose = () => {
+      isClosed = true;
+      unmountContent?.();
+      unmountContent = undefined;
+      return false;
+    };
+
+    if (isValidElement(content)) {
+      mountElement(content);
+    } else if (typeof content === 'string') {
+      setTimeout(() => setContent(content), 10);
+    } else {
+      content.then(setContent, (error) => {
+        console.error('Error loading window content:', error);
+        setContent('<p>Failed to load content.</p>');
+      });
+    }
 
     // Register with window manager
-    const windowId = `winbox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    windowManager.register(windowId, title, winbox);
+    const windowId = useCaseId
+      ? windowManager.createInstanceId(useCaseId)
+      : `winbox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    windowManager.register(windowId, title, winbox, useCaseId);
 
     resolve(winbox);
   }).catch((error) => {
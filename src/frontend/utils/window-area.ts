@@ -0,0 +1,62 @@
+// Geometry of the WinBox desktop: the area right of the sidebar
+
+export interface WindowArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Get sidebar width from CSS variable or default
+function getSidebarWidth(): number {
+  // Default sidebar width
+  const defaultWidth = 220;
+
+  try {
+    // Check if sidebar is open by looking at the App element
+    const app = document.querySelector('.App');
+    if (app && app.classList.contains('sidebar-open')) {
+      // Try to get from CSS variable
+      const root = document.documentElement;
+      const computedStyle = getComputedStyle(root);
+      const sidebarWidth = computedStyle.getPropertyValue('--sidebar-width').trim();
+      if (sidebarWidth) {
+        return parseInt(sidebarWidth, 10) || defaultWidth;
+      }
+      return defaultWidth;
+    }
+    // Sidebar closed, return 0 offset
+    return 0;
+  } catch (e) {
+    return defaultWidth;
+  }
+}
+
+// Calculate available window area respecting sidebar
+export function getAvailableWindowArea(): WindowArea {
+  const sidebarWidth = getSidebarWidth();
+  // Remove padding to make it truly fullscreen
+  const padding = 0; // No padding for fullscreen
+
+  const availableWidth = window.innerWidth - sidebarWidth - padding * 2;
+  const availableHeight = window.innerHeight - padding * 2;
+
+  return {
+    x: sidebarWidth + padding,
+    y: padding,
+    width: Math.max(availableWidth, 400),
+    height: Math.max(availableHeight, 300),
+  };
+}
+
+// Move and resize a WinBox to fill an area
+export function applyWindowArea(winbox: any, area: WindowArea) {
+  if (!winbox) return;
+  // Prevent recursion by checking if the dimensions are already correct
+  if (winbox.width !== area.width || winbox.height !== area.height) {
+    winbox.resize(area.width, area.height);
+  }
+  if (winbox.x !== area.x || winbox.y !== area.y) {
+    winbox.move(area.x, area.y);
+  }
+}
@@ -1,9 +1,13 @@
 // Type declarations for global WinBox
 // WinBox is loaded via script tag, not as a module
 
+import type { ElectronAPI } from './shared/ipc-channels';
+
 declare global {
   interface Window {
     WinBox: WinBoxConstructor;
+    // Exposed by preload.ts; undefined when the renderer runs in a plain browser
+    electronAPI?: ElectronAPI;
   }
 
   interface WinBoxConstructor {
@@ -31,6 +35,18 @@ declare global {
   }
 
   var WinBox: WinBoxConstructor;
+
+  // Rspack's require.context, used to discover modules at build time
+  namespace NodeJS {
+    interface Require {
+      context(directory: string, useSubdirectories: boolean, regExp: RegExp): RequireContext;
+    }
+  }
+
+  interface RequireContext {
+    (key: string): unknown;
+    keys(): string[];
+  }
 }
 
 export {};
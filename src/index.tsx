@@ -2,14 +2,24 @@ import { setup } from 'goober';
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import AppProviders from './frontend/components/AppProviders';
+import DetachedWindow from './frontend/components/DetachedWindow';
+import WindowPortalHost from './frontend/components/WindowPortalHost';
+import { DetachedWindowUtils } from './frontend/lib/detached-windows/detached-windows';
 import { applyGlobalStyles } from './frontend/styles/redesigned-styles';
 
 setup(React.createElement);
 applyGlobalStyles();
 
+// Popped-out windows load the same page with the use case in the query string
+const detached = DetachedWindowUtils.getCurrent();
+
 const root = createRoot(document.getElementById('root')!);
 root.render(
   <React.StrictMode>
-    <App />
+    <AppProviders>
+      {detached ? <DetachedWindow info={detached} /> : <App />}
+      <WindowPortalHost />
+    </AppProviders>
   </React.StrictMode>
 );
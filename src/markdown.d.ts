@@ -0,0 +1,7 @@
+// Topic files (topic.md) import as compiled topics: through the Rspack loader in the
+// renderer, through the require hook of UseCaseUtils in the main process
+
+declare module '*.md' {
+  const topic: import('./shared/markdown').Topic;
+  export default topic;
+}
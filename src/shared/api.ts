@@ -1,61 +1,145 @@
 // Renderer process API utilities
 // This file contains functions for communicating with the main process
 
+import type { OpenDialogOptions, SaveDialogOptions } from 'electron';
+import type { SystemInfo } from '../backend/lib/common/types';
+import { HelperUtils } from '../frontend/lib/helpers/helpers';
+import type {
+  ElectronAPI,
+  IpcChannel,
+  IpcDiagnostics,
+  IpcEventChannel,
+  IpcEventPayload,
+  IpcRequest,
+  IpcResponse,
+  IpcStreamChannel,
+  IpcStreamChunk,
+  IpcStreamRequest,
+} from './ipc-channels';
+import { type IpcErrorCode, parseIpcError } from './ipc-errors';
+
 /**
- * Type definition for ElectronAPI
+ * Result of a safe API call
  */
-interface ElectronAPI {
-  setTitle: (title: string) => Promise<void>;
-  [key: string]: any;
+export interface ApiCallResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  // Correlation id of the call, also found in main-process logs and the session trace
+  correlationId: string;
+  // Round-trip duration measured in the renderer
+  durationMs?: number;
+  // Set when the main process rejected the call with a structured error
+  code?: IpcErrorCode;
+  details?: string[];
+  // Set for THROTTLED errors
+  retryAfterMs?: number;
 }
 
 /**
  * Safe API wrapper with error handling
  */
 export class SafeAPI {
-  private api: ElectronAPI;
+  private api: ElectronAPI | undefined;
 
   constructor() {
-    this.api = (window as any).electronAPI || {};
+    this.api = window.electronAPI;
   }
 
   /**
-   * Calls an API method safely
-   * @param {string} method - API method name
-   * @param {any[]} args - Arguments to pass
-   * @returns {Promise<any>} - Promise with result or error
+   * Invokes an IPC channel safely. Each call gets a correlation id that the main process
+   * attaches to its log lines and trace entries, so a failure can be followed end to end.
+   * @param {IpcChannel} channel - Channel declared in the IPC contract
+   * @param {IpcRequest} args - Arguments to pass
+   * @returns {Promise<ApiCallResult>} - Promise with result or error
    */
-  async call<T>(
-    method: string,
-    ...args: any[]
-  ): Promise<{ success: boolean; data?: T; error?: string }> {
-    if (!this.api[method]) {
-      return { success: false, error: `Method '${method}' not found` };
+  async call<C extends IpcChannel>(
+    channel: C,
+    ...args: IpcRequest<C>
+  ): Promise<ApiCallResult<IpcResponse<C>>> {
+    const correlationId = HelperUtils.generateId(12);
+
+    if (!this.api) {
+      return { success: false, error: 'Electron API not available', correlationId };
     }
 
+    const startedAt = performance.now();
     try {
-      const result = await this.api[method](...args);
-      return { success: true, data: result };
+      const result = await this.api.invoke(channel, { correlationId }, ...args);
+      return {
+        success: true,
+        data: result,
+        correlationId,
+        durationMs: performance.now() - startedAt,
+      };
     } catch (error) {
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      const durationMs = performance.now() - startedAt;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const ipcError = parseIpcError(message);
+      console.warn(`[SafeAPI] Call to '${channel}' failed [cid:${correlationId}]`, message);
+
+      if (ipcError) {
+        return {
+          success: false,
+          error: ipcError.message,
+          code: ipcError.code,
+          details: ipcError.details,
+          retryAfterMs: ipcError.retryAfterMs,
+          correlationId,
+          durationMs,
+        };
+      }
+      return { success: false, error: message, correlationId, durationMs };
+    }
+  }
+
+  /**
+   * Opens a streaming channel. Breaking out of a for-await loop cancels the job
+   * in the main process; a failed job rejects the pending iteration.
+   * @param {IpcStreamChannel} channel - Streaming channel declared in the IPC contract
+   * @param {IpcStreamRequest} args - Arguments to pass
+   * @returns {AsyncIterableIterator<IpcStreamChunk>} - Chunks posted by the main process
+   */
+  stream<C extends IpcStreamChannel>(
+    channel: C,
+    ...args: IpcStreamRequest<C>
+  ): AsyncIterableIterator<IpcStreamChunk<C>> {
+    if (!this.api) {
+      throw new Error('Electron API not available');
     }
+
+    const iterator = this.api.stream(channel, ...args);
+    return {
+      next: () => iterator.next(),
+      return: () => iterator.return(),
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
   }
 
   /**
-   * Checks if a method exists
-   * @param {string} method - Method name to check
-   * @returns {boolean} - True if method exists
+   * Subscribes to an event pushed by the main process
+   * @param {IpcEventChannel} channel - Event channel declared in the IPC contract
+   * @param {Function} handler - Called with each event payload
+   * @returns {Function} - Unsubscribe function; a no-op outside Electron
    */
-  hasMethod(method: string): boolean {
-    return typeof this.api[method] === 'function';
+  subscribe<C extends IpcEventChannel>(
+    channel: C,
+    handler: (payload: IpcEventPayload<C>) => void
+  ): () => void {
+    if (!this.api) {
+      return () => {};
+    }
+    return this.api.subscribe(channel, handler);
   }
 
   /**
-   * Gets available API methods
-   * @returns {string[]} - Array of method names
+   * Checks if the preload bridge is available
+   * @returns {boolean} - True when running inside Electron with the preload script
    */
-  getAvailableMethods(): string[] {
-    return Object.keys(this.api).filter((key) => typeof this.api[key] === 'function');
+  isAvailable(): boolean {
+    return this.api !== undefined;
   }
 }
 
@@ -65,16 +149,16 @@ export class SafeAPI {
 export const api = new SafeAPI();
 
 /**
- * Convenience function to call API methods
- * @param {string} method - Method name
- * @param {any[]} args - Arguments
- * @returns {Promise<any>} - Promise with result
+ * Convenience function to invoke IPC channels
+ * @param {IpcChannel} channel - Channel name
+ * @param {IpcRequest} args - Arguments
+ * @returns {Promise<ApiCallResult>} - Promise with result
  */
-export async function invoke<T>(
-  method: string,
-  ...args: any[]
-): Promise<{ success: boolean; data?: T; error?: string }> {
-  return api.call<T>(method, ...args);
+export async function invoke<C extends IpcChannel>(
+  channel: C,
+  ...args: IpcRequest<C>
+): Promise<ApiCallResult<IpcResponse<C>>> {
+  return api.call(channel, ...args);
 }
 
 /**
@@ -93,37 +177,55 @@ export class TypedAPI {
    * @returns {Promise<boolean>} - True if successful
    */
   async setTitle(title: string): Promise<boolean> {
-    const result = await this.api.call('setTitle', title);
+    const result = await this.api.call('set-title', title);
     return result.success;
   }
 
   /**
    * Gets system information
-   * @returns {Promise<object>} - System info object
+   * @returns {Promise<SystemInfo | null>} - System info object
+   */
+  async getSystemInfo(): Promise<SystemInfo | null> {
+    const result = await this.api.call('get-system-info');
+    return result.success && result.data ? result.data : null;
+  }
+
+  /**
+   * Gets IPC diagnostics such as rate limit counters
+   * @returns {Promise<IpcDiagnostics | null>} - Diagnostics snapshot
+   */
+  async getIpcDiagnostics(): Promise<IpcDiagnostics | null> {
+    const result = await this.api.call('get-ipc-diagnostics');
+    return result.success && result.data ? result.data : null;
+  }
+
+  /**
+   * Exports the IPC trace of the current session
+   * @returns {Promise<string | null>} - Trace as formatted JSON
    */
-  async getSystemInfo(): Promise<object | null> {
-    const result: any = await this.api.call('getSystemInfo');
-    return result.success ? result.data : null;
+  async exportTrace(): Promise<string | null> {
+    const result = await this.api.call('get-ipc-trace');
+    return result.success && result.data ? JSON.stringify(result.data, null, 2) : null;
   }
 
   /**
    * Shows a file dialog
-   * @param {object} options - Dialog options
+   * @param {OpenDialogOptions} options - Dialog options
    * @returns {Promise<string[]>} - Selected file paths
    */
-  async showOpenDialog(options: object): Promise<string[]> {
-    const result: any = await this.api.call('showOpenDialog', options);
-    return result.success ? result.data : [];
+  async showOpenDialog(options: OpenDialogOptions): Promise<string[]> {
+    const result = await this.api.call('show-open-dialog', options);
+    return result.success && result.data ? result.data : [];
   }
 
   /**
    * Shows a save dialog
-   * @param {object} options - Dialog options
+   * @param {SaveDialogOptions} options - Dialog options
    * @returns {Promise<string | null>} - Selected file path
    */
-  async showSaveDialog(options: object): Promise<string | null> {
-    const result: any = await this.api.call('showSaveDialog', options);
-    return result.success ? result.data : null;
+  async showSaveDialog(options: SaveDialogOptions): Promise<string | null> {
+    const result = await this.api.call('show-save-dialog', options);
+    return result.success && result.data ? result.data : null;
   }
 }
 
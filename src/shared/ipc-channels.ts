@@ -0,0 +1,304 @@
+// IPC contract shared by the main process, the preload bridge and the renderer
+// Every invoke, stream and event channel is declared here with its argument and result types
+
+import type { OpenDialogOptions, SaveDialogOptions } from 'electron';
+import type { FileInfo, SystemInfo } from '../backend/lib/common/types';
+import type { IpcErrorCode } from './ipc-errors';
+import type { ShortcutBindings } from './shortcuts';
+
+/**
+ * Content served by the use-case handlers
+ */
+export interface UseCaseInfo {
+  title: string;
+  content: string;
+  category: string;
+  tags: string[];
+}
+
+/**
+ * Editable fields of a topic written by the user
+ */
+export interface UserTopicInput {
+  title: string;
+  category: string;
+  tags: string[];
+  // Markdown body, without front-matter
+  markdown: string;
+}
+
+/**
+ * Topic written by the user, stored as a Markdown file in the app data folder
+ */
+export interface UserTopic extends UserTopicInput {
+  // File name without .md
+  id: string;
+  updatedAt: string;
+}
+
+/**
+ * How the category tabs of the card list are shown
+ */
+export interface CategoryPreferences {
+  // Categories in tab order; categories not listed follow in content order
+  order: string[];
+  // Categories without a tab
+  hidden: string[];
+}
+
+/**
+ * Use-case window popped out of the WinBox desktop into a native window
+ */
+export interface DetachedWindowInfo {
+  id: string;
+  useCaseId: string;
+  title: string;
+}
+
+/**
+ * Rate limit counters for one sender and channel
+ */
+export interface RateLimitCounter {
+  senderId: number;
+  channel: string;
+  allowed: number;
+  throttled: number;
+  tokens: number;
+  maxRequests: number;
+  windowMs: number;
+}
+
+/**
+ * Snapshot returned by the diagnostics channel
+ */
+export interface IpcDiagnostics {
+  rateLimiting: { enabled: boolean; maxRequests: number; windowMs: number };
+  counters: RateLimitCounter[];
+}
+
+/**
+ * One traced invoke, recorded by the main process
+ */
+export interface IpcTraceEntry {
+  correlationId: string;
+  channel: string;
+  senderId: number;
+  startedAt: string;
+  durationMs: number;
+  status: 'ok' | 'error';
+  errorCode?: IpcErrorCode;
+  error?: string;
+}
+
+/**
+ * Trace of every invoke since the app started
+ */
+export interface IpcTraceExport {
+  sessionId: string;
+  startedAt: string;
+  entries: IpcTraceEntry[];
+}
+
+/**
+ * Geometry and state of one use-case window in a workspace snapshot
+ */
+export interface WorkspaceWindow {
+  useCaseId: string;
+  title: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isMinimized: boolean;
+  // Window fills the area right of the sidebar instead of keeping its own size
+  isFitted: boolean;
+  isPinned?: boolean;
+  // Position in the stack, 0 at the back; older snapshots are stacked in list order
+  stackIndex?: number;
+}
+
+/**
+ * Arrangement of the WinBox desktop
+ */
+export interface WorkspaceSnapshot {
+  // Viewport the geometry was captured in
+  viewport: { width: number; height: number };
+  // Ordered as listed in the sidebar
+  windows: WorkspaceWindow[];
+}
+
+/**
+ * Named set of windows, e.g. "Security review"
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  snapshot: WorkspaceSnapshot;
+}
+
+/**
+ * Saved workspaces, the active one and whether it is restored on launch
+ */
+export interface WorkspaceState {
+  restoreOnLaunch: boolean;
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+/**
+ * File format of exported workspaces
+ */
+export interface WorkspaceExport {
+  version: 1;
+  workspaces: Workspace[];
+}
+
+/**
+ * Map of invoke channels to their request arguments and response type
+ */
+export interface IpcChannelMap {
+  'set-title': { request: [title: string]; response: void };
+  'get-system-info': { request: []; response: SystemInfo };
+  'show-open-dialog': { request: [options: OpenDialogOptions]; response: string[] };
+  'show-save-dialog': { request: [options: SaveDialogOptions]; response: string | null };
+  'get-ipc-diagnostics': { request: []; response: IpcDiagnostics };
+  'get-ipc-trace': { request: []; response: IpcTraceExport };
+  'get-use-case-info': { request: [id: string]; response: UseCaseInfo };
+  'open-external': { request: [url: string]; response: void };
+  'list-user-topics': { request: []; response: UserTopic[] };
+  'get-user-topic': { request: [id: string]; response: UserTopic };
+  'create-user-topic': { request: [topic: UserTopicInput]; response: UserTopic };
+  'update-user-topic': { request: [id: string, topic: UserTopicInput]; response: UserTopic };
+  'delete-user-topic': { request: [id: string]; response: void };
+  'get-workspaces': { request: []; response: WorkspaceState };
+  'save-workspace': { request: [id: string, snapshot: WorkspaceSnapshot]; response: void };
+  'create-workspace': { request: [name: string]; response: Workspace };
+  'rename-workspace': { request: [id: string, name: string]; response: void };
+  'delete-workspace': { request: [id: string]; response: void };
+  'set-active-workspace': { request: [id: string]; response: void };
+  'set-workspace-restore': { request: [enabled: boolean]; response: void };
+  // Show a save/open dialog; null or [] when cancelled
+  'export-workspaces': { request: []; response: string | null };
+  'import-workspaces': { request: []; response: Workspace[] };
+  'detach-window': { request: [useCaseId: string, title: string]; response: DetachedWindowInfo };
+  'dock-window': { request: [id: string]; response: void };
+  'focus-detached-window': { request: [id: string]; response: void };
+  'get-detached-windows': { request: []; response: DetachedWindowInfo[] };
+  'get-shortcuts': { request: []; response: ShortcutBindings };
+  // Changes some bindings and returns all of them
+  'set-shortcuts': {
+    request: [bindings: Partial<ShortcutBindings>];
+    response: ShortcutBindings;
+  };
+  'reset-shortcuts': { request: []; response: ShortcutBindings };
+  'get-category-preferences': { request: []; response: CategoryPreferences };
+  'set-category-preferences': {
+    request: [preferences: CategoryPreferences];
+    response: CategoryPreferences;
+  };
+}
+
+export type IpcChannel = keyof IpcChannelMap;
+export type IpcRequest<C extends IpcChannel> = IpcChannelMap[C]['request'];
+export type IpcResponse<C extends IpcChannel> = IpcChannelMap[C]['response'];
+
+/**
+ * Metadata sent with every invoke
+ */
+export interface IpcCallMeta {
+  // Generated by SafeAPI.call, echoed in main-process logs, traces and errors
+  correlationId: string;
+}
+
+/**
+ * Wire format of an invoke: preload.ts wraps the arguments, IpcUtils unwraps them
+ */
+export interface IpcInvokeEnvelope {
+  meta: IpcCallMeta;
+  args: unknown[];
+}
+
+/**
+ * Progress reported by the download-file stream
+ */
+export interface DownloadProgress {
+  receivedBytes: number;
+  totalBytes: number | null;
+}
+
+/**
+ * Map of streaming channels to their request arguments and chunk type.
+ * Streams run over a MessagePort: the main process posts chunks, the renderer may cancel.
+ */
+export interface IpcStreamMap {
+  'download-file': { request: [url: string, fileName: string]; chunk: DownloadProgress };
+  'list-files': { request: [dirPath: string]; chunk: FileInfo[] };
+}
+
+export type IpcStreamChannel = keyof IpcStreamMap;
+export type IpcStreamRequest<C extends IpcStreamChannel> = IpcStreamMap[C]['request'];
+export type IpcStreamChunk<C extends IpcStreamChannel> = IpcStreamMap[C]['chunk'];
+
+/**
+ * Messages posted by the main process on a stream port
+ */
+export type IpcStreamMessage<T> =
+  | { type: 'chunk'; data: T }
+  | { type: 'end' }
+  | { type: 'error'; error: string };
+
+/**
+ * Messages posted by the renderer on a stream port
+ */
+export type IpcStreamControl = { type: 'cancel' };
+
+/**
+ * Map of main-to-renderer event channels to their payload type.
+ * Only these channels can be subscribed to through window.electronAPI.subscribe.
+ */
+export interface IpcEventMap {
+  // Names of the changed top-level config keys; values are read through their own channels
+  'config-changed': { keys: string[] };
+  'system-suspend': { timestamp: string };
+  'system-resume': { timestamp: string };
+  // Development only: a use case's main-process handlers were hot-reloaded
+  'use-case-reloaded': { id: string; timestamp: string };
+  'detached-windows-changed': { windows: DetachedWindowInfo[] };
+  // A detached window was closed to be reopened on the WinBox desktop
+  'window-docked': { useCaseId: string; title: string };
+  // A user topic was created, changed or deleted
+  'user-topics-changed': { topics: UserTopic[] };
+}
+
+export type IpcEventChannel = keyof IpcEventMap;
+export type IpcEventPayload<C extends IpcEventChannel> = IpcEventMap[C];
+
+/**
+ * Async iterator protocol returned by the preload bridge.
+ * contextBridge drops symbol keys, so SafeAPI.stream adds Symbol.asyncIterator.
+ */
+export interface IpcStreamIterator<T> {
+  next(): Promise<IteratorResult<T, undefined>>;
+  // Cancels the job in the main process
+  return(): Promise<IteratorResult<T, undefined>>;
+}
+
+/**
+ * API exposed by preload.ts on window.electronAPI
+ */
+export interface ElectronAPI {
+  invoke<C extends IpcChannel>(
+    channel: C,
+    meta: IpcCallMeta,
+    ...args: IpcRequest<C>
+  ): Promise<IpcResponse<C>>;
+  stream<C extends IpcStreamChannel>(
+    channel: C,
+    ...args: IpcStreamRequest<C>
+  ): IpcStreamIterator<IpcStreamChunk<C>>;
+  // Returns a function that removes the subscription
+  subscribe<C extends IpcEventChannel>(
+    channel: C,
+    handler: (payload: IpcEventPayload<C>) => void
+  ): () => void;
+}
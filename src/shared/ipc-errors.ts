@@ -0,0 +1,60 @@
+// Structured IPC errors shared by the main process and the renderer
+// Electron only forwards the message of an error thrown by an invoke handler,
+// so the structured payload is encoded into the message and decoded by SafeAPI
+
+export type IpcErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'UNAUTHORIZED_SENDER'
+  | 'THROTTLED'
+  | 'HANDLER_ERROR';
+
+export interface IpcErrorInfo {
+  code: IpcErrorCode;
+  channel: string;
+  message: string;
+  details?: string[];
+  // Set for THROTTLED errors
+  retryAfterMs?: number;
+  // Correlation id of the failed call, generated by SafeAPI.call
+  correlationId?: string;
+}
+
+const IPC_ERROR_PREFIX = 'IPC_ERROR:';
+
+/**
+ * Error carrying a structured payload across the IPC boundary
+ */
+export class IpcError extends Error {
+  readonly info: IpcErrorInfo;
+
+  constructor(info: IpcErrorInfo) {
+    super(`${IPC_ERROR_PREFIX}${JSON.stringify(info)}`);
+    this.name = 'IpcError';
+    this.info = info;
+  }
+}
+
+/**
+ * Creates an Error carrying a structured payload across the IPC boundary
+ * @param info - Structured error information
+ * @returns Error to throw from an invoke handler
+ */
+export function createIpcError(info: IpcErrorInfo): IpcError {
+  return new IpcError(info);
+}
+
+/**
+ * Extracts the structured payload from an error message received by the renderer
+ * @param message - Error message, possibly prefixed by Electron
+ * @returns Structured error information, or null for plain errors
+ */
+export function parseIpcError(message: string): IpcErrorInfo | null {
+  const index = message.indexOf(IPC_ERROR_PREFIX);
+  if (index === -1) return null;
+
+  try {
+    return JSON.parse(message.slice(index + IPC_ERROR_PREFIX.length)) as IpcErrorInfo;
+  } catch {
+    return null;
+  }
+}
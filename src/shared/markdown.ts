@@ -0,0 +1,311 @@
+// Use-case topics: Markdown files with front-matter, compiled to safe HTML
+// Shared by the Rspack loader (renderer) and the require hook of the main process
+
+/**
+ * Heading of a topic, linked from its table of contents
+ */
+export interface TopicHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+/**
+ * Topic compiled from a Markdown file
+ */
+export interface Topic {
+  id: string;
+  title: string;
+  category: string;
+  tags: string[];
+  // Body without the title; raw HTML in the Markdown is escaped
+  html: string;
+  // Level 2 and 3 headings, in document order
+  toc: TopicHeading[];
+  // First paragraph as plain text, shortened
+  excerpt: string;
+}
+
+const excerptLength = 160;
+
+/**
+ * Escapes text for use in HTML content and quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Splits front-matter from a Markdown file. Values are plain strings, or
+ * lists written as [a, b]; quotes around a value are dropped.
+ * @param source - File content, starting with a block between --- lines
+ * @returns Front-matter fields and the Markdown after them
+ */
+export function parseFrontMatter(source: string): {
+  data: Record<string, string | string[]>;
+  body: string;
+} {
+  const match = source.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: source };
+
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  const data: Record<string, string | string[]> = {};
+  match[1].split(/\r?\n/).forEach((line) => {
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) return;
+    const [, key, value] = field;
+    const list = value.match(/^\[(.*)\]$/);
+    data[key] = list
+      ? list[1]
+          .split(',')
+          .map(unquote)
+          .filter((item) => item !== '')
+      : unquote(value);
+  });
+  return { data, body: source.slice(match[0].length) };
+}
+
+// Only web links, in-page anchors and topic links become links
+function renderLink(text: string, url: string): string {
+  if (/^https?:\/\//i.test(url) || /^#[\w-]+$/.test(url)) {
+    return `<a href="${escapeHtml(url)}">${text}</a>`;
+  }
+  const topic = url.match(/^topic:([\w-]+)$/);
+  if (topic) {
+    return `<a href="${url}" data-topic="${topic[1]}">${text}</a>`;
+  }
+  return text;
+}
+
+/**
+ * Renders the inline Markdown of a line: `code`, **strong**, *emphasis* and
+ * [links](url). Everything else is escaped.
+ * @param text - Markdown text
+ * @returns HTML
+ */
+export function renderInline(text: string): string {
+  const format = (part: string) =>
+    escapeHtml(part)
+      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+      .replace(/\*(.+?)\*/g, '<em>$1</em>');
+
+  return text
+    .split(/(`[^`]+`|\[[^\]]+\]\([^)\s]+\))/)
+    .map((part, index) => {
+      // Odd parts are code spans and links
+      if (index % 2 === 0) return format(part);
+      if (part.startsWith('`')) return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      const [, label, url] = part.match(/^\[(.+)\]\((.+)\)$/) as RegExpMatchArray;
+      return renderLink(format(label), url);
+    })
+    .join('');
+}
+
+// Inline Markdown as plain text, for headings in the table of contents and excerpts
+function toPlainText(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)\s]+\)/g, '$1')
+    .replace(/[`*]/g, '')
+    .trim();
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-|-$/g, '') || 'section'
+  );
+}
+
+function shorten(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length + 1);
+  const end = cut.lastIndexOf(' ');
+  return `${(end > 0 ? cut.slice(0, end) : cut.slice(0, length)).replace(/[\s,.;:]+$/, '')}…`;
+}
+
+/**
+ * Renders Markdown blocks: headings, paragraphs, lists, quotes and fenced code.
+ * Raw HTML is not supported and shows as text.
+ * @param markdown - Markdown without front-matter
+ * @returns HTML, its headings and its first paragraph as plain text
+ */
+export function renderMarkdown(markdown: string): {
+  html: string;
+  toc: TopicHeading[];
+  firstParagraph: string;
+} {
+  const blocks: string[] = [];
+  const toc: TopicHeading[] = [];
+  const slugs: Map<string, number> = new Map();
+  let firstParagraph = '';
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+  let quote: string[] = [];
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      const text = paragraph.join(' ');
+      if (!firstParagraph) firstParagraph = toPlainText(text);
+      blocks.push(`<p>${renderInline(text)}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      const items = list.items.map((item) => `<li>${renderInline(item)}</li>`).join('');
+      blocks.push(`<${list.tag}>${items}</${list.tag}>`);
+      list = null;
+    }
+    if (quote.length > 0) {
+      blocks.push(`<blockquote><p>${renderInline(quote.join(' '))}</p></blockquote>`);
+      quote = [];
+    }
+  };
+
+  markdown.split(/\r?\n/).forEach((line) => {
+    if (code) {
+      if (/^```/.test(line)) {
+        blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        code = null;
+      } else {
+        code.push(line);
+      }
+      return;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    const listItem = line.match(/^\s*(?:([-*+])|\d+[.)])\s+(.*)$/);
+    const quoteLine = line.match(/^>\s?(.*)$/);
+
+    if (/^```/.test(line)) {
+      flush();
+      code = [];
+    } else if (heading) {
+      flush();
+      const level = heading[1].length;
+      const text = toPlainText(heading[2]);
+      const slug = slugify(text);
+      const count = (slugs.get(slug) ?? 0) + 1;
+      slugs.set(slug, count);
+      const id = count > 1 ? `${slug}-${count}` : slug;
+      if (level === 2 || level === 3) toc.push({ id, text, level });
+      blocks.push(`<h${level} id="${id}">${renderInline(heading[2])}</h${level}>`);
+    } else if (listItem) {
+      const tag = listItem[1] ? 'ul' : 'ol';
+      if (list?.tag !== tag) flush();
+      list = list ?? { tag, items: [] };
+      list.items.push(listItem[2]);
+    } else if (quoteLine) {
+      if (quote.length === 0) flush();
+      quote.push(quoteLine[1]);
+    } else if (line.trim() === '') {
+      flush();
+    } else if (list && /^\s+/.test(line)) {
+      // Indented lines continue the last list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list || quote.length > 0) flush();
+      paragraph.push(line.trim());
+    }
+  });
+
+  // An unclosed fence runs to the end of the file
+  const unclosed = code as string[] | null;
+  if (unclosed) blocks.push(`<pre><code>${escapeHtml(unclosed.join('\n'))}</code></pre>`);
+  flush();
+
+  return { html: blocks.join('\n'), toc, firstParagraph };
+}
+
+/**
+ * Front-matter fields of a topic
+ */
+export type TopicMetadata = Pick<Topic, 'id' | 'title' | 'category' | 'tags'>;
+
+/**
+ * Compiles the Markdown body of a topic
+ * @param metadata - Front-matter fields
+ * @param markdown - Markdown without front-matter
+ * @returns Compiled topic
+ */
+export function createTopic(metadata: TopicMetadata, markdown: string): Topic {
+  const { html, toc, firstParagraph } = renderMarkdown(markdown);
+  return { ...metadata, html, toc, excerpt: shorten(firstParagraph, excerptLength) };
+}
+
+/**
+ * Compiles a topic file. The front-matter must give id, title and category;
+ * tags are optional.
+ * @param source - Markdown with front-matter
+ * @param fileName - File the source was read from, for error messages
+ * @returns Compiled topic
+ */
+export function compileTopic(source: string, fileName = 'topic'): Topic {
+  const { data, body } = parseFrontMatter(source);
+
+  const getText = (key: string): string => {
+    const value = data[key];
+    if (typeof value !== 'string' || value === '') {
+      throw new Error(`${fileName}: front-matter field '${key}' is missing`);
+    }
+    return value;
+  };
+  const tags = data.tags ?? [];
+
+  return createTopic(
+    {
+      id: getText('id'),
+      title: getText('title'),
+      category: getText('category'),
+      tags: Array.isArray(tags) ? tags : [tags],
+    },
+    body
+  );
+}
+
+/**
+ * Writes a topic file, the reverse of parseFrontMatter. Line breaks in values
+ * become spaces, and tags lose the characters that delimit lists.
+ * @param metadata - Front-matter fields
+ * @param markdown - Markdown body
+ * @returns File content
+ */
+export function stringifyTopic(metadata: TopicMetadata, markdown: string): string {
+  const line = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const tags = metadata.tags.map((tag) => line(tag.replace(/[[\],]/g, ' '))).filter(Boolean);
+  return [
+    '---',
+    `id: ${line(metadata.id)}`,
+    `title: ${line(metadata.title)}`,
+    `category: ${line(metadata.category)}`,
+    `tags: [${tags.join(', ')}]`,
+    '---',
+    '',
+    markdown.replace(/\r\n/g, '\n').trim(),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders a topic for a window: its table of contents, when it has more than
+ * one section, followed by its body
+ * @param topic - Compiled topic
+ * @returns HTML
+ */
+export function renderTopic(topic: Topic): string {
+  if (topic.toc.length < 2) return topic.html;
+
+  const items = topic.toc
+    .map(
+      ({ id, text, level }) =>
+        `<li class="toc-level-${level}"><a href="#${id}">${escapeHtml(text)}</a></li>`
+    )
+    .join('');
+  return `<nav class="topic-toc" aria-label="Contents"><ul>${items}</ul></nav>\n${topic.html}`;
+}
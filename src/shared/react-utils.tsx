@@ -13,6 +13,7 @@ export const useAsync = ReactHooksUtils.useAsync;
 export const useWindowSize = ReactHooksUtils.useWindowSize;
 export const useClickOutside = ReactHooksUtils.useClickOutside;
 export const useKeyboard = ReactHooksUtils.useKeyboard;
+export const useIpcEvent = ReactHooksUtils.useIpcEvent;
 export const useMediaQuery = ReactHooksUtils.useMediaQuery;
 // export const usePrevious = ReactHooksUtils.usePrevious;  // Temporarily disabled due to TypeScript error
 export const useTimeout = ReactHooksUtils.useTimeout;
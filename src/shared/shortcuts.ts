@@ -0,0 +1,95 @@
+// Keyboard shortcuts: defaults and parsing shared by the main-process settings and the renderer
+
+export type ShortcutAction =
+  | 'command-palette'
+  | 'command-palette-alt'
+  | 'next-window'
+  | 'previous-window'
+  | 'close-window'
+  | 'layout-split'
+  | 'layout-grid'
+  | 'layout-cascade';
+
+/**
+ * Shortcut of each action, written like "Ctrl+Shift+P"
+ */
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const defaultShortcuts: ShortcutBindings = {
+  'command-palette': 'Ctrl+K',
+  'command-palette-alt': 'Ctrl+Shift+P',
+  'next-window': 'Ctrl+Tab',
+  'previous-window': 'Ctrl+Shift+Tab',
+  // Ctrl+W is taken by the default Electron menu
+  'close-window': 'Ctrl+Alt+W',
+  'layout-split': 'Ctrl+Alt+1',
+  'layout-grid': 'Ctrl+Alt+2',
+  'layout-cascade': 'Ctrl+Alt+3',
+};
+
+export const shortcutLabels: Record<ShortcutAction, string> = {
+  'command-palette': 'Open command palette',
+  'command-palette-alt': 'Open command palette (alternative)',
+  'next-window': 'Focus next window',
+  'previous-window': 'Focus previous window',
+  'close-window': 'Close active window',
+  'layout-split': 'Split left/right',
+  'layout-grid': 'Grid',
+  'layout-cascade': 'Cascade',
+};
+
+/**
+ * Key and modifiers of a shortcut
+ */
+export interface ParsedShortcut {
+  key: string;
+  ctrl: boolean;
+  shift: boolean;
+  alt: boolean;
+}
+
+const modifiers = ['Ctrl', 'Shift', 'Alt'];
+
+/**
+ * Parses a shortcut such as "Ctrl+Shift+P"
+ * @param shortcut - Modifiers and a key, joined with "+"
+ * @returns Key and modifiers, or null if there is no key or an unknown modifier
+ */
+export function parseShortcut(shortcut: string): ParsedShortcut | null {
+  const parts = shortcut.split('+').map((part) => part.trim());
+  const key = parts.pop();
+
+  if (!key || modifiers.includes(key) || parts.some((part) => !modifiers.includes(part))) {
+    return null;
+  }
+  return {
+    key,
+    ctrl: parts.includes('Ctrl'),
+    shift: parts.includes('Shift'),
+    alt: parts.includes('Alt'),
+  };
+}
+
+/**
+ * Writes the shortcut of a key press, e.g. to record a new binding
+ * @param event - Key, code and modifier state of the key press
+ * @returns Shortcut such as "Ctrl+Shift+P", or null for a lone modifier and for keys
+ * that cannot be written in a shortcut (space, plus)
+ */
+export function formatShortcut(event: {
+  key: string;
+  code?: string;
+  ctrlKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}): string | null {
+  if (['Control', 'Shift', 'Alt', 'Meta', ' ', '+'].includes(event.key)) return null;
+
+  // With Alt held, some layouts report a symbol; the physical digit or letter is meant
+  const match = event.code ? /^(?:Key|Digit)(\w)$/.exec(event.code) : null;
+  const key = match ? match[1] : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+
+  return [event.ctrlKey && 'Ctrl', event.shiftKey && 'Shift', event.altKey && 'Alt', key]
+    .filter(Boolean)
+    .join('+');
+}
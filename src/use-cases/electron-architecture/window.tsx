@@ -0,0 +1,19 @@
+import { UseCaseUtils } from '../../frontend/lib/use-cases/use-cases';
+import { createWinBoxWindow } from '../../frontend/utils/winbox-utils';
+import type { UseCaseWindowOptions } from '../types';
+import { manifest } from './manifest';
+
+export const createElectronArchitectureWindow = async ({
+  title,
+  newInstance,
+}: UseCaseWindowOptions) => {
+  return await createWinBoxWindow({
+    title,
+    // Served by the handler; the bundled copy is used when IPC is unavailable
+    content: UseCaseUtils.fetchContent(manifest.id, manifest.content),
+    useCaseId: manifest.id,
+    newInstance,
+    width: '500px',
+    height: '400px',
+  });
+};
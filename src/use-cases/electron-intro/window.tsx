@@ -0,0 +1,15 @@
+import { UseCaseUtils } from '../../frontend/lib/use-cases/use-cases';
+import { createWinBoxWindow } from '../../frontend/utils/winbox-utils';
+import type { UseCaseWindowOptions } from '../types';
+import { manifest } from './manifest';
+
+export const createElectronIntroWindow = async ({ title, newInstance }: UseCaseWindowOptions) => {
+  return await createWinBoxWindow({
+    title,
+    // Served by the handler; the bundled copy is used when IPC is unavailable
+    content: UseCaseUtils.fetchContent(manifest.id, manifest.content),
+    useCaseId: manifest.id,
+    newInstance,
+    maximize: true, // Maximize by default, respecting sidebar
+  });
+};
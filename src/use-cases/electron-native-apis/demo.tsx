@@ -0,0 +1,112 @@
+import type React from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import type { SystemInfo } from '../../backend/lib/common/types';
+import { HelperUtils } from '../../frontend/lib/helpers/helpers';
+import { ReactHooksUtils } from '../../frontend/lib/react-hooks/hooks';
+import {
+  DemoActions,
+  DemoButton,
+  DemoHeading,
+  DemoPanel,
+  DemoStats,
+} from '../../frontend/styles/redesigned-styles';
+
+// Polled, so kept well inside the default IPC rate limit
+const refreshMs = 5000;
+// Round trips kept for the average
+const maxSamples = 10;
+
+// Live demo of native APIs over IPC: system info, a native dialog and round-trip timing
+export const NativeApisDemo: React.FC = () => {
+  const api = ReactHooksUtils.useApi();
+  const theme = ReactHooksUtils.useTheme();
+  const [info, setInfo] = useState<SystemInfo | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [roundTrips, setRoundTrips] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshInfo = useCallback(async () => {
+    const result = await api.call('get-system-info');
+    if (result.success && result.data) {
+      setInfo(result.data);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to read system info');
+    }
+  }, [api]);
+
+  useEffect(() => {
+    refreshInfo();
+  }, [refreshInfo]);
+  ReactHooksUtils.useInterval(refreshInfo, refreshMs);
+
+  const openFiles = async () => {
+    const result = await api.call('show-open-dialog', {
+      title: 'Choose files',
+      properties: ['openFile', 'multiSelections'],
+    });
+    if (result.success && result.data) setSelectedFiles(result.data);
+  };
+
+  const measureRoundTrip = async () => {
+    const result = await api.call('get-ipc-diagnostics');
+    const durationMs = result.durationMs;
+    if (result.success && durationMs !== undefined) {
+      setRoundTrips((samples) => [durationMs, ...samples].slice(0, maxSamples));
+    }
+  };
+
+  if (!api.isAvailable()) {
+    return (
+      <DemoPanel>
+        <DemoHeading>Live demo</DemoHeading>
+        <p style={{ color: theme.colors.textSecondary }}>Run the app in Electron to try it.</p>
+      </DemoPanel>
+    );
+  }
+
+  const average = roundTrips.reduce((sum, value) => sum + value, 0) / (roundTrips.length || 1);
+
+  return (
+    <DemoPanel>
+      <DemoHeading>System</DemoHeading>
+      {error && <p style={{ color: '#f87171' }}>{error}</p>}
+      {info && (
+        <DemoStats>
+          <dt>Platform</dt>
+          <dd>
+            {info.platform} ({info.arch}), {info.cpus} CPUs
+          </dd>
+          <dt>Electron</dt>
+          <dd>{info.electronVersion}</dd>
+          <dt>Free memory</dt>
+          <dd>
+            {HelperUtils.formatFileSize(info.freeMemory)} of{' '}
+            {HelperUtils.formatFileSize(info.totalMemory)}
+          </dd>
+          <dt>Uptime</dt>
+          <dd>{Math.floor(info.uptime / 60)} min</dd>
+        </DemoStats>
+      )}
+
+      <DemoHeading>Dialogs</DemoHeading>
+      <DemoActions>
+        <DemoButton onClick={openFiles}>Open files…</DemoButton>
+        <span style={{ color: theme.colors.textSecondary }}>
+          {selectedFiles.length > 0 ? selectedFiles.join(', ') : 'Nothing chosen'}
+        </span>
+      </DemoActions>
+
+      <DemoHeading>IPC round trip</DemoHeading>
+      <DemoActions>
+        <DemoButton onClick={measureRoundTrip}>Measure</DemoButton>
+        {roundTrips.length > 0 && (
+          <span style={{ color: theme.colors.accentColor }}>
+            last {roundTrips[0].toFixed(1)} ms, average {average.toFixed(1)} ms over{' '}
+            {roundTrips.length}
+          </span>
+        )}
+      </DemoActions>
+    </DemoPanel>
+  );
+};
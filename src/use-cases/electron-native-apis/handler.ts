@@ -0,0 +1,20 @@
+// Backend use case for Electron native APIs functionality
+import { UseCaseUtils } from '../../backend/lib/use-cases/use-cases';
+import { manifest } from './manifest';
+
+const registerElectronNativeApisHandlers = (): (() => void)[] => {
+  // Serve Electron native APIs info over the shared use-case channel
+  const disposeInfo = UseCaseUtils.provideInfo(manifest.id, async () => {
+    return {
+      title: manifest.title,
+      content: manifest.content,
+      category: manifest.category,
+      tags: manifest.tags,
+    };
+  });
+
+  // Additional handlers can be added here, returning their disposers with this one
+  return [disposeInfo];
+};
+
+export { registerElectronNativeApisHandlers };
\ No newline at end of file
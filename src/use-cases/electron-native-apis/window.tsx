@@ -0,0 +1,28 @@
+import HtmlContent from '../../frontend/components/HtmlContent';
+import { UseCaseUtils } from '../../frontend/lib/use-cases/use-cases';
+import { createWinBoxWindow } from '../../frontend/utils/winbox-utils';
+import type { UseCaseWindowOptions } from '../types';
+import { NativeApisDemo } from './demo';
+import { manifest } from './manifest';
+
+// The topic text is served by the handler, followed by a live demo
+export const getElectronNativeApisContent = () => (
+  <>
+    <HtmlContent html={UseCaseUtils.fetchContent(manifest.id, manifest.content)} />
+    <NativeApisDemo />
+  </>
+);
+
+export const createElectronNativeApisWindow = async ({
+  title,
+  newInstance,
+}: UseCaseWindowOptions) => {
+  return await createWinBoxWindow({
+    title,
+    content: getElectronNativeApisContent(),
+    useCaseId: manifest.id,
+    newInstance,
+    width: '500px',
+    height: '400px',
+  });
+};
@@ -0,0 +1,18 @@
+import { renderTopic } from '../../shared/markdown';
+import type { UseCaseManifest } from '../types';
+import topic from './topic.md';
+
+export const manifest: UseCaseManifest = {
+  id: topic.id,
+  order: 40,
+  title: topic.title,
+  content: renderTopic(topic),
+  excerpt: topic.excerpt,
+  category: topic.category,
+  tags: topic.tags,
+  loadHandler: () =>
+    import(/* webpackIgnore: true */ './handler').then(
+      (module) => module.registerElectronPackagingHandlers
+    ),
+  loadWindow: () => import('./window').then((module) => module.createElectronPackagingWindow),
+};
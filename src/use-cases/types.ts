@@ -0,0 +1,55 @@
+// Manifest contract for use cases
+// Each folder under src/use-cases holds manifest.ts, topic.md (content), handler.ts (main)
+// and window.tsx (renderer)
+
+import type { ReactElement } from 'react';
+
+/**
+ * Options passed to a use-case window factory
+ */
+export interface UseCaseWindowOptions {
+  title: string;
+  content?: string;
+  // Open another window even if the use case already has one; by default
+  // the existing window is restored and focused
+  newInstance?: boolean;
+}
+
+/**
+ * Opens the WinBox window of a use case, or focuses the one already open
+ */
+export type UseCaseWindowFactory = (options: UseCaseWindowOptions) => Promise<unknown>;
+
+/**
+ * Content of a use-case window: HTML, HTML still loading, or a React element
+ */
+export type UseCaseContent = string | Promise<string> | ReactElement;
+
+/**
+ * Registers the main-process handlers of a use case.
+ * Returns the functions that remove them, called once the use case is reloaded.
+ */
+export type UseCaseHandlerRegistrar = () => (() => void)[];
+
+/**
+ * Declaration of a use case, discovered by the main process and the renderer.
+ * The handler and window modules are loaded lazily so that each process
+ * only pulls in its own side.
+ */
+export interface UseCaseManifest {
+  id: string;
+  // Position in the menu, ascending
+  order: number;
+  // Menu metadata, taken from the topic.md of the use case
+  title: string;
+  content: string;
+  // First paragraph of the content as plain text
+  excerpt: string;
+  category: string;
+  tags: string[];
+  loadHandler: () => Promise<UseCaseHandlerRegistrar>;
+  loadWindow: () => Promise<UseCaseWindowFactory>;
+  // Content of the window when it is not just the HTML served by the handler, e.g. a
+  // React demo; popped-out windows show it too
+  loadContent?: () => Promise<() => UseCaseContent>;
+}
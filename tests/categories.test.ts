@@ -0,0 +1,81 @@
+import { describe, expect, mock, test } from 'bun:test';
+import type { MenuItem } from '../src/shared/menu-data';
+
+// The preferences are not loaded here; the renderer API needs a window
+mock.module('../src/shared/api', () => ({ api: {} }));
+
+const { CategoryUtils } = await import('../src/frontend/lib/categories/categories');
+
+const card = (id: string, category: string, tags: string[]): MenuItem => ({
+  id,
+  title: id,
+  content: '',
+  excerpt: '',
+  category,
+  tags,
+});
+
+const cards = [
+  card('security', 'security', ['csp', 'ipc']),
+  card('api', 'api', ['ipc', 'dialogs']),
+  card('context-bridge', 'security', ['ipc']),
+  card('release-notes', 'notes', ['release']),
+];
+
+describe('getTabs', () => {
+  test('should derive tabs from the cards in the stored order', () => {
+    const tabs = CategoryUtils.getTabs(cards, { order: ['notes', 'gone'], hidden: ['api'] });
+    expect(tabs).toEqual([
+      { id: 'notes', label: 'Notes', isHidden: false },
+      { id: 'security', label: 'Security', isHidden: false },
+      { id: 'api', label: 'APIs', isHidden: true },
+    ]);
+  });
+
+  test('should move a tab within bounds', () => {
+    const tabs = CategoryUtils.getTabs(cards, { order: [], hidden: [] });
+    expect(CategoryUtils.moveTab(tabs, 'notes', -1).order).toEqual(['security', 'notes', 'api']);
+    expect(CategoryUtils.moveTab(tabs, 'security', -1).order).toEqual([
+      'security',
+      'api',
+      'notes',
+    ]);
+  });
+});
+
+describe('filters', () => {
+  test('should require the category and every selected tag', () => {
+    const filters = { category: 'security', tags: ['ipc', 'csp'] };
+    const listed = cards.filter((item) => CategoryUtils.matches(item, filters));
+    expect(listed.map(({ id }) => id)).toEqual(['security']);
+    expect(cards.filter((item) => CategoryUtils.matches(item, filters, 'tags')).length).toBe(2);
+  });
+
+  test('should count categories and tags', () => {
+    expect(CategoryUtils.countCategories(cards).get('security')).toBe(2);
+    expect(CategoryUtils.countTags(cards).slice(0, 2)).toEqual([
+      { tag: 'ipc', count: 3 },
+      { tag: 'csp', count: 1 },
+    ]);
+  });
+
+  test('should fall back to every card for a category without cards', () => {
+    const unknown = { category: 'gone', tags: ['ipc'] };
+    expect(CategoryUtils.resolveFilters(unknown, cards)).toEqual({
+      category: 'all',
+      tags: ['ipc'],
+    });
+    // Kept whether or not its tab is hidden, which CategoryFilter shows while active
+    const notes = { category: 'notes', tags: [] };
+    expect(CategoryUtils.resolveFilters(notes, cards)).toBe(notes);
+  });
+
+  test('should round-trip through the URL hash', () => {
+    const filters = { category: 'api', tags: ['ipc', 'a&b'] };
+    const hash = CategoryUtils.formatHash(filters);
+    expect(hash).toBe('#category=api&tag=ipc&tag=a%26b');
+    expect(CategoryUtils.parseHash(hash)).toEqual(filters);
+    expect(CategoryUtils.formatHash({ category: 'all', tags: [] })).toBe('');
+    expect(CategoryUtils.parseHash('')).toEqual({ category: 'all', tags: [] });
+  });
+});
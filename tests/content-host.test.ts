@@ -0,0 +1,99 @@
+import { describe, expect, mock, test } from 'bun:test';
+import { Window } from 'happy-dom';
+
+// The sanitizer parses HTML with the DOM of the renderer
+globalThis.document = new Window().document as unknown as Document;
+
+// Messages are only parsed here; carrying them out needs the renderer API and windows
+mock.module('../src/shared/api', () => ({ api: {} }));
+mock.module('../src/frontend/utils/topic-windows', () => ({ openTopicWindow: async () => null }));
+
+const { ContentHostUtils } = await import('../src/frontend/lib/content-host/content-host');
+
+describe('sanitize', () => {
+  test('should keep plain content', () => {
+    const html = '<h2 id="intro">Intro</h2><p>Use <a href="https://example.com">links</a>.</p>';
+    expect(ContentHostUtils.sanitize(html)).toBe(html);
+  });
+
+  test('should remove event handler attributes', () => {
+    const html = ContentHostUtils.sanitize(
+      '<img src="a.png" onerror="alert(1)"><p ONCLICK="alert(2)" class="note">Text</p>'
+    );
+    expect(html).toBe('<img src="a.png"><p class="note">Text</p>');
+  });
+
+  test('should remove script and data URLs from href and src', () => {
+    const html = ContentHostUtils.sanitize(
+      '<a href="javascript:alert(1)">a</a>' +
+        '<a href=" JaVa\tScript:alert(1)">b</a>' +
+        '<a href="data:text/html,<script>alert(1)</script>">c</a>' +
+        '<img src="data:text/html;base64,PHNjcmlwdD4=">'
+    );
+    expect(html).toBe('<a>a</a><a>b</a><a>c</a><img>');
+  });
+
+  test('should remove script URLs from xlink:href', () => {
+    const html = ContentHostUtils.sanitize(
+      '<svg><a xlink:href="javascript:alert(1)"><text>Link</text></a></svg>'
+    );
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<text>Link</text>');
+  });
+
+  test('should keep data URLs of images', () => {
+    const html = '<img src="data:image/png;base64,iVBORw0KGgo=">';
+    expect(ContentHostUtils.sanitize(html)).toBe(html);
+  });
+
+  test('should remove blocked elements with their content', () => {
+    const html = ContentHostUtils.sanitize(
+      '<p>Kept</p><script>alert(1)</script><iframe src="https://example.com"></iframe>' +
+        '<object data="x.swf"></object><embed src="x.swf"><form><input name="q"></form>' +
+        '<base href="https://example.com/"><template><p>Hidden</p></template>'
+    );
+    expect(html).toBe('<p>Kept</p>');
+  });
+
+  test('should remove srcdoc', () => {
+    expect(ContentHostUtils.sanitize('<div srcdoc="<script></script>">x</div>')).toBe(
+      '<div>x</div>'
+    );
+  });
+});
+
+describe('parseMessage', () => {
+  test('should accept known messages', () => {
+    const link = { type: 'open-link', url: 'https://example.com' };
+    expect(ContentHostUtils.parseMessage(link)).toEqual(link);
+    expect(ContentHostUtils.parseMessage({ type: 'open-topic', id: 'electron-security' })).toEqual({
+      type: 'open-topic',
+      id: 'electron-security',
+    });
+    expect(ContentHostUtils.parseMessage({ type: 'resize', height: 320 })).toEqual({
+      type: 'resize',
+      height: 320,
+    });
+  });
+
+  test('should drop fields that are not part of the message', () => {
+    expect(
+      ContentHostUtils.parseMessage({ type: 'open-topic', id: 'electron-intro', extra: true })
+    ).toEqual({ type: 'open-topic', id: 'electron-intro' });
+  });
+
+  test('should reject data that is not a message', () => {
+    expect(ContentHostUtils.parseMessage(null)).toBeNull();
+    expect(ContentHostUtils.parseMessage(undefined)).toBeNull();
+    expect(ContentHostUtils.parseMessage('open-link')).toBeNull();
+    expect(ContentHostUtils.parseMessage(42)).toBeNull();
+  });
+
+  test('should reject unknown types and fields of the wrong type', () => {
+    expect(ContentHostUtils.parseMessage({ type: 'eval', code: 'alert(1)' })).toBeNull();
+    expect(ContentHostUtils.parseMessage({ type: 'open-link' })).toBeNull();
+    expect(ContentHostUtils.parseMessage({ type: 'open-link', url: 42 })).toBeNull();
+    expect(ContentHostUtils.parseMessage({ type: 'open-topic', id: ['a'] })).toBeNull();
+    expect(ContentHostUtils.parseMessage({ type: 'resize', height: '320' })).toBeNull();
+  });
+});
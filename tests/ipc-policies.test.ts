@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import * as os from 'os';
+import { parseIpcError } from '../src/shared/ipc-errors';
+
+// Invoke handlers registered by IpcUtils, by channel
+const handlers: Map<string, (event: unknown, payload: unknown) => Promise<unknown>> = new Map();
+
+mock.module('electron', () => ({
+  app: { getVersion: () => '0.0.0', getPath: () => os.tmpdir() },
+  BrowserWindow: { getAllWindows: () => [] },
+  dialog: {},
+  ipcMain: {
+    handle: (channel: string, handler: (event: unknown, payload: unknown) => Promise<unknown>) =>
+      handlers.set(channel, handler),
+    removeHandler: (channel: string) => handlers.delete(channel),
+  },
+}));
+
+const { IpcUtils } = await import('../src/backend/lib/ipc/ipc');
+const { defaultChannelPolicy, ipcPolicies } = await import('../src/backend/lib/ipc/policies');
+const { SecurityUtils } = await import('../src/backend/lib/security/security');
+
+const appUrl = 'http://localhost:3000';
+const topFrame = { url: `${appUrl}/index.html`, parent: null };
+
+// Each call comes from its own sender, so rate limits of other tests do not interfere
+let nextSenderId = 100;
+
+// Calls a registered handler the way preload.ts does, from the given frame
+const invoke = (channel: string, senderFrame: unknown, args: unknown[] = []) =>
+  handlers.get(channel)!(
+    { sender: { id: nextSenderId++, once: () => {} }, senderFrame },
+    { meta: { correlationId: 'test-call' }, args }
+  );
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (error: Error) => parseIpcError(error.message)
+  );
+
+beforeEach(() => {
+  IpcUtils.setTrustedOrigins([appUrl]);
+  IpcUtils.registerHandler('get-ipc-trace', () => IpcUtils.exportTrace());
+});
+
+describe('policies', () => {
+  test('should only allow the main frame by default', () => {
+    expect(defaultChannelPolicy.allowSubframes).toBe(false);
+  });
+
+  test('should keep every channel on the app origins', () => {
+    Object.values(ipcPolicies).forEach((policy) => {
+      expect(policy?.origins).toBeUndefined();
+      expect(policy?.allowSubframes).toBeUndefined();
+    });
+  });
+
+  test('should give open-external a tighter rate limit than the default', () => {
+    expect(ipcPolicies['open-external']?.rateLimit).toEqual({ maxRequests: 5, windowMs: 10000 });
+  });
+});
+
+describe('isAllowedUrl', () => {
+  test('should match web URLs by origin', () => {
+    expect(IpcUtils.isAllowedUrl('http://localhost:3000/a/b?c', [appUrl])).toBe(true);
+    expect(IpcUtils.isAllowedUrl('http://localhost:3001/', [appUrl])).toBe(false);
+    expect(IpcUtils.isAllowedUrl('https://localhost:3000/', [appUrl])).toBe(false);
+  });
+
+  test('should match file URLs by exact path', () => {
+    const allowed = ['file:///app/dist/index.html'];
+    expect(IpcUtils.isAllowedUrl('file:///app/dist/index.html#/home', allowed)).toBe(true);
+    expect(IpcUtils.isAllowedUrl('file:///app/dist/other.html', allowed)).toBe(false);
+  });
+
+  test('should reject URLs that do not parse', () => {
+    expect(IpcUtils.isAllowedUrl('not a url', [appUrl])).toBe(false);
+    expect(IpcUtils.isAllowedUrl('', [appUrl])).toBe(false);
+  });
+});
+
+describe('sender authorization', () => {
+  test('should accept calls from the trusted top frame', async () => {
+    const trace = await invoke('get-ipc-trace', topFrame);
+    expect(trace).toHaveProperty('entries');
+  });
+
+  test('should reject calls from an untrusted origin', async () => {
+    const error = await rejection(
+      invoke('get-ipc-trace', { url: 'https://evil.example/', parent: null })
+    );
+    expect(error).toMatchObject({
+      code: 'UNAUTHORIZED_SENDER',
+      channel: 'get-ipc-trace',
+      message: 'Origin not allowed: https://evil.example/',
+    });
+  });
+
+  test('should reject calls from a subframe, even of the app origin', async () => {
+    const error = await rejection(invoke('get-ipc-trace', { ...topFrame, parent: topFrame }));
+    expect(error).toMatchObject({
+      code: 'UNAUTHORIZED_SENDER',
+      message: 'Calls from subframes are not allowed',
+    });
+  });
+
+  test('should reject calls whose frame is gone', async () => {
+    const error = await rejection(invoke('get-ipc-trace', null));
+    expect(error).toMatchObject({ code: 'UNAUTHORIZED_SENDER' });
+  });
+
+  test('should record rejected senders as security events', async () => {
+    await rejection(invoke('get-ipc-trace', { url: 'https://evil.example/', parent: null }));
+
+    const event = SecurityUtils.getSecurityEvents().at(-1);
+    expect(event).toMatchObject({
+      type: 'ipc-unauthorized-sender',
+      details: { channel: 'get-ipc-trace', url: 'https://evil.example/' },
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, mock, test } from 'bun:test';
+import * as os from 'os';
+import { parseIpcError } from '../src/shared/ipc-errors';
+
+// Invoke handlers registered by IpcUtils, by channel
+const handlers: Map<string, (event: unknown, payload: unknown) => Promise<unknown>> = new Map();
+
+mock.module('electron', () => ({
+  app: { getVersion: () => '0.0.0', getPath: () => os.tmpdir() },
+  BrowserWindow: { getAllWindows: () => [] },
+  dialog: {},
+  ipcMain: {
+    handle: (channel: string, handler: (event: unknown, payload: unknown) => Promise<unknown>) =>
+      handlers.set(channel, handler),
+    removeHandler: (channel: string) => handlers.delete(channel),
+  },
+}));
+
+const { ipcSchemas } = await import('../src/backend/lib/ipc/schemas');
+const { IpcUtils } = await import('../src/backend/lib/ipc/ipc');
+const { ValidationUtils } = await import('../src/backend/lib/validation/validation');
+
+const appUrl = 'http://localhost:3000';
+IpcUtils.setTrustedOrigins([appUrl]);
+
+// Calls a registered handler the way preload.ts does, from the app's main frame
+const invoke = (channel: string, args: unknown[]) =>
+  handlers.get(channel)!(
+    { sender: { id: 1, once: () => {} }, senderFrame: { url: `${appUrl}/`, parent: null } },
+    { meta: { correlationId: 'test-call' }, args }
+  );
+
+const snapshot = {
+  viewport: { width: 1280, height: 800 },
+  windows: [
+    {
+      useCaseId: 'electron-intro',
+      title: 'Intro',
+      x: 10,
+      y: 20,
+      width: 400,
+      height: 300,
+      isMinimized: false,
+      isFitted: false,
+    },
+  ],
+};
+
+const topic = {
+  title: 'Notes',
+  category: 'notes',
+  tags: ['ipc'],
+  markdown: '# Notes',
+};
+
+describe('ipcSchemas', () => {
+  const validate = (channel: keyof typeof ipcSchemas, args: unknown[]) =>
+    ValidationUtils.validateArgs(args, ipcSchemas[channel]);
+
+  test('should accept good arguments', () => {
+    expect(validate('save-workspace', ['default', snapshot]).isValid).toBe(true);
+    expect(validate('update-user-topic', ['notes', topic]).isValid).toBe(true);
+    expect(validate('get-ipc-trace', []).isValid).toBe(true);
+  });
+
+  test('should accept missing optional fields and reject wrong ones', () => {
+    const withWindow = (changes: Record<string, unknown>) => ({
+      ...snapshot,
+      windows: [{ ...snapshot.windows[0], ...changes }],
+    });
+
+    const pinned = withWindow({ isPinned: true, stackIndex: 2 });
+    expect(validate('save-workspace', ['default', pinned]).isValid).toBe(true);
+    expect(validate('save-workspace', ['default', withWindow({ isPinned: 'yes' })]).isValid).toBe(
+      false
+    );
+  });
+
+  test('should reject arguments of the wrong type', () => {
+    expect(validate('save-workspace', [42, snapshot]).errors).toEqual([
+      'Invalid value for argument 0',
+    ]);
+    expect(validate('save-workspace', ['default', { ...snapshot, viewport: null }]).errors).toEqual(
+      ['Invalid value for argument 1']
+    );
+    expect(validate('update-user-topic', ['notes', { ...topic, tags: 'ipc' }]).isValid).toBe(false);
+    expect(validate('update-user-topic', ['notes', { ...topic, title: undefined }]).isValid).toBe(
+      false
+    );
+  });
+
+  test('should reject missing and extra arguments', () => {
+    expect(validate('save-workspace', ['default']).errors).toEqual([
+      'Invalid value for argument 1',
+    ]);
+    expect(validate('update-user-topic', ['notes', topic, 'extra']).errors).toEqual([
+      'Expected at most 2 argument(s), received 3',
+    ]);
+    expect(validate('get-ipc-trace', [true]).isValid).toBe(false);
+  });
+
+  test('should only open web URLs', () => {
+    expect(validate('open-external', ['https://www.electronjs.org']).isValid).toBe(true);
+    expect(validate('open-external', ['file:///etc/passwd']).isValid).toBe(false);
+    expect(validate('open-external', ['javascript:alert(1)']).isValid).toBe(false);
+  });
+});
+
+describe('registerHandler', () => {
+  test('should pass valid arguments to the handler', async () => {
+    IpcUtils.registerHandler('update-user-topic', (_event, id, input) => ({
+      ...input,
+      id,
+      createdAt: '',
+      updatedAt: '',
+    }));
+
+    const result = await invoke('update-user-topic', ['notes', topic]);
+    expect(result).toMatchObject({ id: 'notes', title: 'Notes' });
+  });
+
+  test('should reject invalid arguments before the handler runs', async () => {
+    let calls = 0;
+    IpcUtils.registerHandler('save-workspace', () => {
+      calls++;
+    });
+
+    const error = await invoke('save-workspace', ['default', snapshot, 'extra']).catch(
+      (caught: Error) => caught
+    );
+    expect(calls).toBe(0);
+    expect(parseIpcError((error as Error).message)).toMatchObject({
+      code: 'INVALID_ARGUMENTS',
+      channel: 'save-workspace',
+      details: ['Expected at most 2 argument(s), received 3'],
+    });
+
+    await invoke('save-workspace', ['default', snapshot]);
+    expect(calls).toBe(1);
+  });
+});
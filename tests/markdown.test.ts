@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  compileTopic,
+  parseFrontMatter,
+  renderInline,
+  renderTopic,
+  stringifyTopic,
+} from '../src/shared/markdown';
+
+const source = `---
+id: electron-security
+title: "Security Best Practices"
+category: security
+tags: [security, csp]
+---
+
+Enable **context isolation** and a strict CSP. Never trust <script>alert(1)</script> input.
+
+## Checklist
+
+- Validate \`ipcMain\` input
+- Keep Electron updated
+
+### Checklist
+
+\`\`\`
+win.loadURL('https://example.com')
+\`\`\`
+`;
+
+describe('compileTopic', () => {
+  test('should read front-matter', () => {
+    expect(compileTopic(source)).toMatchObject({
+      id: 'electron-security',
+      title: 'Security Best Practices',
+      category: 'security',
+      tags: ['security', 'csp'],
+    });
+  });
+
+  test('should escape raw HTML', () => {
+    const { html } = compileTopic(source);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<li>Validate <code>ipcMain</code> input</li>');
+    expect(html).toContain("<pre><code>win.loadURL(&#39;https://example.com&#39;)</code></pre>");
+  });
+
+  test('should list headings with unique ids and excerpt the first paragraph', () => {
+    const topic = compileTopic(source);
+    expect(topic.toc).toEqual([
+      { id: 'checklist', text: 'Checklist', level: 2 },
+      { id: 'checklist-2', text: 'Checklist', level: 3 },
+    ]);
+    expect(topic.excerpt).toBe(
+      'Enable context isolation and a strict CSP. Never trust <script>alert(1)</script> input.'
+    );
+    expect(renderTopic(topic)).toContain('<a href="#checklist-2">Checklist</a>');
+  });
+
+  test('should report a missing front-matter field', () => {
+    expect(() => compileTopic('---\nid: a\ntitle: A\n---\nText', 'a/topic.md')).toThrow(
+      "a/topic.md: front-matter field 'category' is missing"
+    );
+  });
+});
+
+describe('stringifyTopic', () => {
+  test('should write front-matter that reads back', () => {
+    const metadata = { id: 'user-release', title: 'Release\nchecklist', category: 'notes' };
+    const source = stringifyTopic(
+      { ...metadata, tags: ['a,b', ' ci '] },
+      '## Steps\r\n\r\n- Tag\n'
+    );
+    expect(parseFrontMatter(source)).toEqual({
+      data: { ...metadata, title: 'Release checklist', tags: ['a b', 'ci'] },
+      body: '\n## Steps\n\n- Tag\n',
+    });
+  });
+});
+
+describe('renderInline', () => {
+  test('should only link safe URLs', () => {
+    expect(renderInline('[Docs](https://electronjs.org) [x](javascript:void)')).toBe(
+      '<a href="https://electronjs.org">Docs</a> x'
+    );
+    expect(renderInline('[Security](topic:electron-security)')).toBe(
+      '<a href="topic:electron-security" data-topic="electron-security">Security</a>'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { RateLimiter } from '../src/backend/lib/ipc/rate-limiter';
+
+describe('RateLimiter', () => {
+  const limit = { maxRequests: 3, windowMs: 3000 };
+
+  test('should allow bursts up to maxRequests and then throttle', () => {
+    const limiter = new RateLimiter();
+
+    for (let i = 0; i < 3; i++) {
+      expect(limiter.consume(1, 'set-title', limit, 0).allowed).toBe(true);
+    }
+
+    const throttled = limiter.consume(1, 'set-title', limit, 0);
+    expect(throttled.allowed).toBe(false);
+    expect(throttled.retryAfterMs).toBe(1000);
+  });
+
+  test('should refill tokens over the window', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 3; i++) limiter.consume(1, 'set-title', limit, 0);
+
+    expect(limiter.consume(1, 'set-title', limit, 999).allowed).toBe(false);
+    expect(limiter.consume(1, 'set-title', limit, 1000).allowed).toBe(true);
+  });
+
+  test('should keep separate buckets per sender and channel', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 3; i++) limiter.consume(1, 'set-title', limit, 0);
+
+    expect(limiter.consume(1, 'set-title', limit, 0).allowed).toBe(false);
+    expect(limiter.consume(2, 'set-title', limit, 0).allowed).toBe(true);
+    expect(limiter.consume(1, 'get-system-info', limit, 0).allowed).toBe(true);
+  });
+
+  test('should report only the first throttled call of a burst', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 3; i++) limiter.consume(1, 'set-title', limit, 0);
+
+    expect(limiter.consume(1, 'set-title', limit, 0).firstThrottled).toBe(true);
+    expect(limiter.consume(1, 'set-title', limit, 0).firstThrottled).toBe(false);
+    expect(limiter.consume(1, 'set-title', limit, 1000).allowed).toBe(true);
+    expect(limiter.consume(1, 'set-title', limit, 1000).firstThrottled).toBe(true);
+  });
+
+  test('should expose counters and drop them with the sender', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 4; i++) limiter.consume(7, 'set-title', limit, 0);
+
+    expect(limiter.getCounters(0)).toEqual([
+      {
+        senderId: 7,
+        channel: 'set-title',
+        allowed: 3,
+        throttled: 1,
+        tokens: 0,
+        maxRequests: 3,
+        windowMs: 3000,
+      },
+    ]);
+
+    limiter.clearSender(7);
+    expect(limiter.getCounters(0)).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import { SearchIndex, SearchUtils } from '../src/frontend/lib/search/search';
+
+interface Topic {
+  id: string;
+  title: string;
+  tags: string[];
+  content: string;
+}
+
+const topics: Topic[] = [
+  {
+    id: 'security',
+    title: 'Security Best Practices',
+    tags: ['context-isolation', 'csp'],
+    content: '<p>Enable <code>contextIsolation</code> and a strict CSP.</p>',
+  },
+  {
+    id: 'packaging',
+    title: 'Packaging and Distribution',
+    tags: ['installer', 'signing'],
+    content: '<p>Build installers &amp; sign them for security.</p>',
+  },
+  {
+    id: 'performance',
+    title: 'Performance Optimization',
+    tags: ['memory', 'startup'],
+    content: '<p>Measure startup time and memory.</p>',
+  },
+];
+
+const createIndex = () =>
+  new SearchIndex<Topic>(
+    [
+      { name: 'title', weight: 4, get: (topic) => topic.title },
+      { name: 'tags', weight: 2, get: (topic) => topic.tags },
+      { name: 'content', weight: 1, get: (topic) => SearchUtils.stripHtml(topic.content) },
+    ],
+    (topic) => topic.id,
+    topics
+  );
+
+const ids = (index: SearchIndex<Topic>, query: string) =>
+  index.search(query).map((result) => result.item.id);
+
+describe('SearchUtils', () => {
+  test('should strip HTML and decode entities', () => {
+    expect(SearchUtils.stripHtml('<p>Build &amp; <b>sign</b></p><script>x()</script>')).toBe(
+      'Build & sign'
+    );
+  });
+
+  test('should tokenize with positions', () => {
+    expect(SearchUtils.tokenize('Native-API, v2')).toEqual([
+      { term: 'native', start: 0, end: 6 },
+      { term: 'api', start: 7, end: 10 },
+      { term: 'v2', start: 12, end: 14 },
+    ]);
+  });
+
+  test('should count a swap of neighbouring characters as one edit', () => {
+    expect(SearchUtils.editDistance('secruity', 'security', 2)).toBe(1);
+    expect(SearchUtils.editDistance('abc', 'xyz', 1)).toBe(2);
+  });
+
+  test('should merge overlapping highlight ranges', () => {
+    expect(
+      SearchUtils.highlight('Security', [
+        [0, 3],
+        [2, 5],
+      ])
+    ).toEqual([
+      { text: 'Secur', start: 0, isMatch: true },
+      { text: 'ity', start: 5, isMatch: false },
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  test('should rank title matches above content matches', () => {
+    expect(ids(createIndex(), 'security')).toEqual(['security', 'packaging']);
+  });
+
+  test('should tolerate typos and match word starts', () => {
+    const index = createIndex();
+    expect(ids(index, 'perfromance')).toEqual(['performance']);
+    expect(ids(index, 'optim')).toEqual(['performance']);
+    expect(ids(index, 'pe')).toEqual(['performance']);
+  });
+
+  test('should require every query word to match', () => {
+    expect(ids(createIndex(), 'memory signing')).toEqual([]);
+  });
+
+  test('should report matched title ranges', () => {
+    const [result] = createIndex().search('secur');
+    expect(result.matches.title).toEqual([[0, 5]]);
+  });
+
+  test('should update and remove items incrementally', () => {
+    const index = createIndex();
+    index.update({ ...topics[2], content: '<p>Profile the renderer.</p>' });
+    expect(ids(index, 'profile')).toEqual(['performance']);
+    expect(ids(index, 'measure')).toEqual([]);
+
+    index.remove('security');
+    expect(ids(index, 'security')).toEqual(['packaging']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { defaultShortcuts, formatShortcut, parseShortcut } from '../src/shared/shortcuts';
+
+const press = (key: string, options: Partial<Parameters<typeof formatShortcut>[0]> = {}) => ({
+  key,
+  ctrlKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...options,
+});
+
+describe('parseShortcut', () => {
+  test('should parse modifiers and the key', () => {
+    expect(parseShortcut('Ctrl+Shift+P')).toEqual({
+      key: 'P',
+      ctrl: true,
+      shift: true,
+      alt: false,
+    });
+    expect(parseShortcut('F2')).toEqual({ key: 'F2', ctrl: false, shift: false, alt: false });
+  });
+
+  test('should ignore whitespace around the parts', () => {
+    expect(parseShortcut(' Ctrl + Alt + 1 ')).toEqual({
+      key: '1',
+      ctrl: true,
+      shift: false,
+      alt: true,
+    });
+  });
+
+  test('should reject unknown modifiers', () => {
+    expect(parseShortcut('Cmd+K')).toBeNull();
+    expect(parseShortcut('ctrl+K')).toBeNull();
+    expect(parseShortcut('Ctrl+Meta+K')).toBeNull();
+  });
+
+  test('should reject a lone modifier or a missing key', () => {
+    expect(parseShortcut('Ctrl')).toBeNull();
+    expect(parseShortcut('Ctrl+Shift')).toBeNull();
+    expect(parseShortcut('Ctrl+')).toBeNull();
+    expect(parseShortcut('')).toBeNull();
+  });
+
+  test('should parse every default shortcut', () => {
+    Object.values(defaultShortcuts).forEach((shortcut) => {
+      expect(parseShortcut(shortcut)).not.toBeNull();
+    });
+  });
+});
+
+describe('formatShortcut', () => {
+  test('should write modifiers in a fixed order before the key', () => {
+    expect(formatShortcut(press('p', { altKey: true, shiftKey: true, ctrlKey: true }))).toBe(
+      'Ctrl+Shift+Alt+P'
+    );
+    expect(formatShortcut(press('Tab', { ctrlKey: true }))).toBe('Ctrl+Tab');
+    expect(formatShortcut(press('F2'))).toBe('F2');
+  });
+
+  test('should ignore a lone modifier', () => {
+    const modifiers = { ctrlKey: true, shiftKey: true, altKey: true };
+    ['Control', 'Shift', 'Alt', 'Meta'].forEach((key) => {
+      expect(formatShortcut(press(key, modifiers))).toBeNull();
+    });
+  });
+
+  test('should ignore keys that cannot be written in a shortcut', () => {
+    expect(formatShortcut(press(' ', { ctrlKey: true }))).toBeNull();
+    expect(formatShortcut(press('+', { ctrlKey: true }))).toBeNull();
+  });
+
+  test('should use the physical digit when Alt reports a symbol', () => {
+    // Alt+1 types ¡ on a US Mac layout, Alt+L types ł on a Polish one
+    expect(formatShortcut(press('¡', { code: 'Digit1', ctrlKey: true, altKey: true }))).toBe(
+      'Ctrl+Alt+1'
+    );
+    expect(formatShortcut(press('ł', { code: 'KeyL', altKey: true }))).toBe('Alt+L');
+  });
+
+  test('should fall back to the key without a letter or digit code', () => {
+    expect(formatShortcut(press('ArrowUp', { code: 'ArrowUp', ctrlKey: true }))).toBe(
+      'Ctrl+ArrowUp'
+    );
+    expect(formatShortcut(press('k', { ctrlKey: true }))).toBe('Ctrl+K');
+  });
+
+  test('should write shortcuts that parse back to the same press', () => {
+    const shortcut = formatShortcut(press('2', { code: 'Digit2', ctrlKey: true, altKey: true }));
+
+    expect(shortcut).toBe(defaultShortcuts['layout-grid']);
+    expect(parseShortcut(shortcut!)).toEqual({ key: '2', ctrl: true, shift: false, alt: true });
+  });
+});
@@ -0,0 +1,146 @@
+import { afterAll, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+mock.module('electron', () => ({
+  app: { getVersion: () => '0.0.0', getPath: () => os.tmpdir() },
+  BrowserWindow: { getAllWindows: () => [] },
+  dialog: {},
+  ipcMain: { handle: () => {}, removeHandler: () => {} },
+}));
+
+const { SystemUtils } = await import('../src/backend/lib/system/system');
+const { TopicUtils } = await import('../src/backend/lib/topics/topics');
+
+// Topics are written to a fresh app data folder for every test
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'topics-test-'));
+let dataDir = rootDir;
+spyOn(SystemUtils, 'getAppDataPath').mockImplementation((subPath = '') =>
+  path.join(dataDir, subPath)
+);
+
+const input = {
+  title: 'IPC Notes',
+  category: 'Notes',
+  tags: [' ipc ', '', 'security'],
+  markdown: '# IPC\n\nValidate every argument.',
+};
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(rootDir, 'data-'));
+});
+
+afterAll(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe('createTopic', () => {
+  test('should write a Markdown file with an id made from the title', () => {
+    const topic = TopicUtils.createTopic(input);
+
+    expect(topic).toMatchObject({
+      id: 'user-ipc-notes',
+      title: 'IPC Notes',
+      category: 'notes',
+      tags: ['ipc', 'security'],
+      markdown: '# IPC\n\nValidate every argument.',
+    });
+    expect(fs.existsSync(path.join(dataDir, 'topics', 'user-ipc-notes.md'))).toBe(true);
+  });
+
+  test('should number topics with the same title', () => {
+    expect(TopicUtils.createTopic(input).id).toBe('user-ipc-notes');
+    expect(TopicUtils.createTopic(input).id).toBe('user-ipc-notes-2');
+    expect(TopicUtils.createTopic(input).id).toBe('user-ipc-notes-3');
+  });
+
+  test('should keep path characters of the title out of the id', () => {
+    expect(TopicUtils.createTopic({ ...input, title: '../../etc/passwd' }).id).toBe(
+      'user-etc-passwd'
+    );
+    expect(TopicUtils.createTopic({ ...input, title: '/// ..' }).id).toBe('user-topic');
+    expect(fs.readdirSync(path.join(dataDir, 'topics')).sort()).toEqual([
+      'user-etc-passwd.md',
+      'user-topic.md',
+    ]);
+  });
+
+  test('should reject Markdown over the size limit', () => {
+    const markdown = 'x'.repeat(512 * 1024 + 1);
+    expect(() => TopicUtils.createTopic({ ...input, markdown })).toThrow('Topic is too long');
+    expect(TopicUtils.listTopics()).toEqual([]);
+  });
+
+  test('should accept Markdown at the size limit', () => {
+    const markdown = 'x'.repeat(512 * 1024);
+    expect(TopicUtils.createTopic({ ...input, markdown }).markdown).toBe(markdown);
+  });
+});
+
+describe('updateTopic', () => {
+  test('should replace the fields of a topic', () => {
+    const { id } = TopicUtils.createTopic(input);
+    const topic = TopicUtils.updateTopic(id, { ...input, title: 'Renamed', tags: ['dialogs'] });
+
+    expect(topic).toMatchObject({ id, title: 'Renamed', tags: ['dialogs'] });
+    expect(TopicUtils.getTopic(id).title).toBe('Renamed');
+  });
+
+  test('should reject unknown topics', () => {
+    expect(() => TopicUtils.updateTopic('user-missing', input)).toThrow('Unknown topic');
+  });
+
+  test('should reject ids that could leave the topics folder', () => {
+    const outside = path.join(dataDir, 'outside.md');
+    fs.writeFileSync(outside, '# Outside');
+
+    ['../outside', '..', '/etc/passwd', outside.replace(/\.md$/, ''), 'a/b', '.hidden'].forEach(
+      (id) => {
+        expect(() => TopicUtils.updateTopic(id, input)).toThrow(`Invalid topic id: ${id}`);
+      }
+    );
+    expect(fs.readFileSync(outside, 'utf8')).toBe('# Outside');
+  });
+
+  test('should reject Markdown over the size limit and keep the topic', () => {
+    const { id } = TopicUtils.createTopic(input);
+    const markdown = 'x'.repeat(512 * 1024 + 1);
+
+    expect(() => TopicUtils.updateTopic(id, { ...input, markdown })).toThrow('Topic is too long');
+    expect(TopicUtils.getTopic(id).markdown).toBe(input.markdown);
+  });
+});
+
+describe('deleteTopic', () => {
+  test('should delete the topic file', () => {
+    const { id } = TopicUtils.createTopic(input);
+    TopicUtils.deleteTopic(id);
+
+    expect(TopicUtils.listTopics()).toEqual([]);
+    expect(() => TopicUtils.getTopic(id)).toThrow('Unknown topic');
+  });
+
+  test('should reject ids that could leave the topics folder', () => {
+    const outside = path.join(dataDir, 'outside.md');
+    fs.writeFileSync(outside, '# Outside');
+
+    ['../outside', '/etc/passwd', outside.replace(/\.md$/, '')].forEach((id) => {
+      expect(() => TopicUtils.deleteTopic(id)).toThrow(`Invalid topic id: ${id}`);
+    });
+    expect(fs.existsSync(outside)).toBe(true);
+  });
+
+  test('should notify listeners with the remaining topics', () => {
+    const first = TopicUtils.createTopic(input);
+    const second = TopicUtils.createTopic({ ...input, title: 'Dialogs' });
+    const changes: string[][] = [];
+    const unsubscribe = TopicUtils.onChange((topics) => changes.push(topics.map(({ id }) => id)));
+
+    TopicUtils.deleteTopic(first.id);
+    unsubscribe();
+    TopicUtils.deleteTopic(second.id);
+
+    expect(changes).toEqual([[second.id]]);
+  });
+});
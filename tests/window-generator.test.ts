@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  generateTheme,
+  generateWindowContent,
+  getContentCategory,
+  registerContentPlugin,
+} from '../src/shared/window-generator';
+
+// The renderer registers the paragraphs of the use-case topics the same way
+registerContentPlugin({
+  name: 'use-cases',
+  templates: {
+    security: [
+      '<p>Enable context isolation.</p>',
+      '<p>Set a strict CSP.</p>',
+      '<p>Validate IPC input.</p>',
+    ],
+    packaging: ['<p>Sign the installers.</p>', '<p>Ship delta updates.</p>'],
+  },
+});
+
+describe('generateWindowContent', () => {
+  test('should give the same content for the same title', () => {
+    const content = generateWindowContent('Security Best Practices');
+    expect(generateWindowContent('Security Best Practices')).toBe(content);
+    expect(content).toContain('<p><strong>About "Security Best Practices":</strong>');
+    expect(content).not.toContain('Sign the installers.');
+  });
+
+  test('should use an explicit seed', () => {
+    const seeded = (seed: number | string) => generateWindowContent('Packaging', { seed });
+    expect(seeded(42)).toBe(seeded(42));
+    expect(seeded('release')).toBe(seeded('release'));
+    expect(seeded('Packaging')).toBe(generateWindowContent('Packaging'));
+    const variants = new Set(Array.from({ length: 20 }, (_, seed) => seeded(seed)));
+    expect(variants.size).toBeGreaterThan(1);
+  });
+
+  test('should not repeat a paragraph', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const paragraphs = generateWindowContent('Security', { seed }).match(/<p>[^<]*<\/p>/g);
+      expect(new Set(paragraphs).size).toBe(paragraphs?.length ?? 0);
+    }
+  });
+});
+
+describe('registerContentPlugin', () => {
+  test('should add keywords and templates until removed', () => {
+    const unregister = registerContentPlugin({
+      name: 'updates',
+      keywords: { Updater: 'updates', csp: 'packaging' },
+      templates: { updates: ['<p>Check for updates on start.</p>'] },
+    });
+    expect(getContentCategory('Auto updater')).toBe('updates');
+    expect(getContentCategory('Security and CSP')).toBe('packaging');
+    expect(generateWindowContent('Auto updater')).toContain('<p>Check for updates on start.</p>');
+
+    unregister();
+    expect(getContentCategory('Auto updater')).toBe('default');
+    expect(getContentCategory('Security and CSP')).toBe('security');
+  });
+
+  test('should replace a plugin registered again under its name', () => {
+    const unregisterFirst = registerContentPlugin({ name: 'team', keywords: { ci: 'a' } });
+    const unregister = registerContentPlugin({ name: 'team', keywords: { ci: 'b' } });
+    unregisterFirst();
+    expect(getContentCategory('CI pipeline')).toBe('b');
+    unregister();
+  });
+});
+
+describe('generateTheme', () => {
+  test('should pick the same theme for the same title', () => {
+    expect(generateTheme('Security')).toEqual(generateTheme('security'));
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, test } from 'bun:test';
+import { computeLayout, getSnapArea, getSnapEdge } from '../src/frontend/lib/window-layouts';
+
+// Area right of an open sidebar of 220px, in a 1220x800 window
+const area = { x: 220, y: 0, width: 1000, height: 800 };
+
+describe('computeLayout', () => {
+  test('should give no rectangles without windows', () => {
+    expect(computeLayout('split', 0, area)).toEqual([]);
+    expect(computeLayout('grid', 0, area)).toEqual([]);
+    expect(computeLayout('cascade', 0, area)).toEqual([]);
+  });
+
+  describe('split', () => {
+    test('should give one window the whole area', () => {
+      expect(computeLayout('split', 1, area)).toEqual([area]);
+    });
+
+    test('should put two windows side by side', () => {
+      expect(computeLayout('split', 2, area)).toEqual([
+        { x: 220, y: 0, width: 500, height: 800 },
+        { x: 720, y: 0, width: 500, height: 800 },
+      ]);
+    });
+
+    test('should stack the other windows on the right half', () => {
+      expect(computeLayout('split', 3, area)).toEqual([
+        { x: 220, y: 0, width: 500, height: 800 },
+        { x: 720, y: 0, width: 500, height: 400 },
+        { x: 720, y: 400, width: 500, height: 400 },
+      ]);
+    });
+
+    test('should give the remainder of odd sizes to the last window', () => {
+      const odd = { x: 220, y: 0, width: 1001, height: 801 };
+      const [left, top, bottom] = computeLayout('split', 3, odd);
+
+      expect(left.width + top.width).toBe(1001);
+      expect(top.height + bottom.height).toBe(801);
+    });
+  });
+
+  describe('grid', () => {
+    test('should put three windows in a 2x2 grid', () => {
+      expect(computeLayout('grid', 3, area)).toEqual([
+        { x: 220, y: 0, width: 500, height: 400 },
+        { x: 720, y: 0, width: 500, height: 400 },
+        { x: 220, y: 400, width: 500, height: 400 },
+      ]);
+    });
+
+    test('should put four windows in a 2x2 grid', () => {
+      expect(computeLayout('grid', 4, area)).toEqual([
+        { x: 220, y: 0, width: 500, height: 400 },
+        { x: 720, y: 0, width: 500, height: 400 },
+        { x: 220, y: 400, width: 500, height: 400 },
+        { x: 720, y: 400, width: 500, height: 400 },
+      ]);
+    });
+
+    test('should put five windows in a 3x2 grid', () => {
+      const rects = computeLayout('grid', 5, area);
+
+      expect(rects).toHaveLength(5);
+      rects.forEach((rect) => {
+        expect(rect.width).toBe(333);
+        expect(rect.height).toBe(400);
+      });
+      expect(rects.map(({ x, y }) => [x, y])).toEqual([
+        [220, 0],
+        [553, 0],
+        [886, 0],
+        [220, 400],
+        [553, 400],
+      ]);
+    });
+  });
+
+  describe('cascade', () => {
+    test('should offset windows diagonally', () => {
+      expect(computeLayout('cascade', 3, area)).toEqual([
+        { x: 220, y: 0, width: 600, height: 480 },
+        { x: 252, y: 32, width: 600, height: 480 },
+        { x: 284, y: 64, width: 600, height: 480 },
+      ]);
+    });
+
+    test('should wrap before a window leaves the area', () => {
+      // 320px of free height fit 10 steps of 32px after the first window
+      const rects = computeLayout('cascade', 13, area);
+
+      expect(rects[10]).toMatchObject({ x: 540, y: 320 });
+      expect(rects[11]).toMatchObject({ x: 220, y: 0 });
+      expect(rects[12]).toMatchObject({ x: 252, y: 32 });
+      rects.forEach((rect) => {
+        expect(rect.x + rect.width).toBeLessThanOrEqual(area.x + area.width);
+        expect(rect.y + rect.height).toBeLessThanOrEqual(area.y + area.height);
+      });
+    });
+
+    test('should stack windows when the area leaves no room to offset them', () => {
+      const small = { x: 0, y: 0, width: 40, height: 40 };
+      expect(computeLayout('cascade', 2, small).map(({ x, y }) => [x, y])).toEqual([
+        [0, 0],
+        [0, 0],
+      ]);
+    });
+  });
+
+  test('should lay windows out right of the sidebar', () => {
+    (['split', 'grid', 'cascade'] as const).forEach((mode) => {
+      computeLayout(mode, 5, area).forEach((rect) => {
+        expect(rect.x).toBeGreaterThanOrEqual(220);
+      });
+    });
+    expect(computeLayout('split', 2, { ...area, x: 0 })[1].x).toBe(500);
+  });
+});
+
+describe('getSnapEdge', () => {
+  test('should find the left edge next to the sidebar', () => {
+    expect(getSnapEdge({ x: 225, y: 400 }, area)).toBe('left');
+    expect(getSnapEdge({ x: 5, y: 400 }, { ...area, x: 0 })).toBe('left');
+    expect(getSnapEdge({ x: 240, y: 400 }, area)).toBeNull();
+  });
+
+  test('should find the right and top edges', () => {
+    expect(getSnapEdge({ x: 1215, y: 400 }, area)).toBe('right');
+    expect(getSnapEdge({ x: 700, y: 3 }, area)).toBe('top');
+    expect(getSnapEdge({ x: 700, y: 400 }, area)).toBeNull();
+  });
+
+  test('should prefer the side edges in the corners', () => {
+    expect(getSnapEdge({ x: 222, y: 2 }, area)).toBe('left');
+    expect(getSnapEdge({ x: 1218, y: 2 }, area)).toBe('right');
+  });
+
+  test('should use the given threshold', () => {
+    expect(getSnapEdge({ x: 240, y: 400 }, area, 20)).toBe('left');
+    expect(getSnapEdge({ x: 241, y: 400 }, area, 20)).toBeNull();
+  });
+});
+
+describe('getSnapArea', () => {
+  test('should snap to the halves right of the sidebar', () => {
+    expect(getSnapArea('left', area)).toEqual({ x: 220, y: 0, width: 500, height: 800 });
+    expect(getSnapArea('right', area)).toEqual({ x: 720, y: 0, width: 500, height: 800 });
+  });
+
+  test('should give the right half the odd pixel', () => {
+    expect(getSnapArea('right', { ...area, width: 1001 })).toEqual({
+      x: 720,
+      y: 0,
+      width: 501,
+      height: 800,
+    });
+  });
+
+  test('should maximize to the whole area for the top edge', () => {
+    expect(getSnapArea('top', area)).toEqual(area);
+  });
+});
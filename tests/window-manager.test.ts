@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { WindowManager } from '../src/frontend/lib/window-manager';
+import { canTransition } from '../src/frontend/lib/window-state';
+
+// Minimal stand-ins for the DOM pieces the manager touches
+let observerCallback: ((mutations: unknown[]) => void) | null = null;
+
+class FakeMutationObserver {
+  constructor(callback: (mutations: unknown[]) => void) {
+    observerCallback = callback;
+  }
+  observe() {}
+  disconnect() {}
+}
+
+// Behaves like WinBox for the callbacks the manager relies on
+class FakeWinBox {
+  window = { isConnected: true };
+  min = false;
+  focused = true;
+  isFitted = false;
+  index = 1;
+  onfocus?: () => void;
+  onblur?: () => void;
+  onminimize?: () => void;
+  onrestore?: () => void;
+  onmaximize?: () => void;
+  onmove?: () => void;
+  onresize?: () => void;
+  onclose?: (force?: boolean) => boolean | undefined;
+
+  focus() {
+    if (!this.focused) {
+      this.focused = true;
+      this.onfocus?.();
+    }
+    return this;
+  }
+
+  blur() {
+    if (this.focused) {
+      this.focused = false;
+      this.onblur?.();
+    }
+    return this;
+  }
+
+  minimize() {
+    if (!this.min) {
+      this.min = true;
+      this.blur();
+      this.onminimize?.();
+    }
+    return this;
+  }
+
+  restore() {
+    if (this.min) {
+      this.min = false;
+      this.onrestore?.();
+    }
+    return this;
+  }
+
+  resize() {
+    this.onresize?.();
+    return this;
+  }
+
+  close(force?: boolean) {
+    if (this.onclose?.(force)) return true;
+    this.window.isConnected = false;
+    observerCallback?.([{ removedNodes: [this.window] }]);
+  }
+}
+
+describe('WindowManager', () => {
+  let manager: WindowManager;
+
+  beforeEach(() => {
+    const globals = globalThis as any;
+    globals.MutationObserver = FakeMutationObserver;
+    globals.document = { body: {}, addEventListener() {}, removeEventListener() {} };
+    manager = new WindowManager();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    const globals = globalThis as any;
+    delete globals.MutationObserver;
+    delete globals.document;
+    observerCallback = null;
+  });
+
+  test('should register a window as normal and active without polling', () => {
+    const setInterval = spyOn(globalThis, 'setInterval');
+    manager.register('a', 'A', new FakeWinBox());
+
+    expect(manager.getWindows()).toMatchObject([
+      { id: 'a', state: 'normal', isActive: true, isMinimized: false },
+    ]);
+    expect(setInterval).not.toHaveBeenCalled();
+    setInterval.mockRestore();
+  });
+
+  test('should register a fitted window as maximized', () => {
+    const winbox = new FakeWinBox();
+    winbox.isFitted = true;
+    manager.register('a', 'A', winbox);
+    expect(manager.getWindows()[0].state).toBe('maximized');
+
+    winbox.isFitted = false;
+    winbox.resize();
+    expect(manager.getWindows()[0].state).toBe('normal');
+  });
+
+  test('should follow minimize and restore synchronously', () => {
+    const winbox = new FakeWinBox();
+    const updates: string[] = [];
+    manager.register('a', 'A', winbox);
+    manager.subscribe((windows) => updates.push(windows[0]?.state));
+
+    winbox.minimize();
+    expect(manager.getWindows()[0]).toMatchObject({ state: 'minimized', isMinimized: true });
+    expect(manager.getWindows()[0].isActive).toBe(false);
+
+    winbox.restore();
+    expect(manager.getWindows()[0]).toMatchObject({ state: 'normal', isMinimized: false });
+    expect(updates).toContain('minimized');
+  });
+
+  test('should toggle between minimized and focused', () => {
+    const winbox = new FakeWinBox();
+    manager.register('a', 'A', winbox);
+
+    manager.toggle('a');
+    expect(manager.getWindows()[0]).toMatchObject({ state: 'minimized', isActive: false });
+
+    manager.toggle('a');
+    expect(manager.getWindows()[0]).toMatchObject({ state: 'normal', isActive: true });
+  });
+
+  test('should keep one active window', () => {
+    const first = new FakeWinBox();
+    const second = new FakeWinBox();
+    manager.register('a', 'A', first);
+    first.blur();
+    second.focused = false;
+    manager.register('b', 'B', second);
+
+    second.focus();
+    expect(manager.getWindows().map((w) => w.isActive)).toEqual([false, true]);
+  });
+
+  test('should remove a window once it has left the DOM', () => {
+    const winbox = new FakeWinBox();
+    const states: string[] = [];
+    manager.register('a', 'A', winbox);
+    manager.subscribe((windows) => states.push(windows[0]?.state ?? 'gone'));
+
+    manager.close('a');
+    expect(states).toEqual(['normal', 'closing', 'gone']);
+    expect(manager.getWindows()).toEqual([]);
+  });
+
+  test('should key instances by use case', () => {
+    expect(manager.createInstanceId('security')).toBe('security');
+    manager.register('security', 'Security', new FakeWinBox(), 'security');
+    expect(manager.createInstanceId('security')).toBe('security:2');
+    manager.register('security:2', 'Security', new FakeWinBox(), 'security');
+
+    expect(manager.findByUseCase('security')?.id).toBe('security');
+    manager.close('security');
+    expect(manager.createInstanceId('security')).toBe('security');
+    expect(manager.findByUseCase('security')?.id).toBe('security:2');
+  });
+
+  test('should cycle focus in list order and restore minimized windows', () => {
+    const first = new FakeWinBox();
+    const second = new FakeWinBox();
+    manager.register('a', 'A', first);
+    // WinBox blurs the previous window when a new one takes focus
+    first.blur();
+    manager.register('b', 'B', second);
+    second.minimize();
+
+    manager.cycleFocus(-1);
+    expect(manager.getWindows().find((record) => record.isActive)?.id).toBe('b');
+    expect(second.min).toBe(false);
+
+    manager.cycleFocus(1);
+    expect(manager.getWindows().find((record) => record.isActive)?.id).toBe('a');
+  });
+
+  test('should reorder windows, keeping pinned ones first and the first one in front', () => {
+    ['a', 'b', 'c'].forEach((id) => manager.register(id, id, new FakeWinBox()));
+    const ids = () => manager.getWindows().map((record) => record.id);
+
+    manager.move('c', 0);
+    expect(ids()).toEqual(['c', 'a', 'b']);
+    expect(manager.getWindows()[0].isActive).toBe(true);
+
+    manager.setPinned('b', true);
+    expect(ids()).toEqual(['b', 'c', 'a']);
+    manager.move('b', 2);
+    expect(ids()).toEqual(['b', 'c', 'a']);
+    manager.move('a', 0);
+    expect(ids()).toEqual(['b', 'a', 'c']);
+  });
+
+  test('should keep a window whose close was cancelled', () => {
+    const winbox = new FakeWinBox();
+    winbox.onclose = () => true;
+    manager.register('a', 'A', winbox);
+
+    manager.close('a');
+    expect(manager.getWindows()[0].state).toBe('normal');
+  });
+});
+
+describe('canTransition', () => {
+  test('should only leave closing for closed', () => {
+    expect(canTransition('closing', 'closed')).toBe(true);
+    expect(canTransition('closing', 'normal')).toBe(false);
+    expect(canTransition('closed', 'normal')).toBe(false);
+  });
+
+  test('should ignore staying in the same state', () => {
+    expect(canTransition('minimized', 'minimized')).toBe(false);
+    expect(canTransition('opening', 'maximized')).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, mock, test } from 'bun:test';
+import * as os from 'os';
+import type { WorkspaceWindow } from '../src/shared/ipc-channels';
+
+mock.module('electron', () => ({
+  app: { getVersion: () => '0.0.0', getPath: () => os.tmpdir() },
+  BrowserWindow: { getAllWindows: () => [] },
+  dialog: {},
+  ipcMain: { handle: () => {}, removeHandler: () => {} },
+}));
+// Only the geometry is restored here; the renderer API and the manifests need a window
+mock.module('../src/shared/api', () => ({ api: {} }));
+mock.module('../src/frontend/lib/use-cases/use-cases', () => ({ UseCaseUtils: {} }));
+
+const { isWorkspaceExport } = await import('../src/backend/handlers/workspace');
+const { WorkspaceUtils } = await import('../src/frontend/lib/workspace/workspace');
+
+const savedWindow: WorkspaceWindow = {
+  useCaseId: 'electron-intro',
+  title: 'Intro',
+  x: 300,
+  y: 40,
+  width: 400,
+  height: 300,
+  isMinimized: false,
+  isFitted: false,
+};
+
+const snapshot = { viewport: { width: 1280, height: 800 }, windows: [savedWindow] };
+
+describe('isWorkspaceExport', () => {
+  test('should accept exported workspaces', () => {
+    expect(isWorkspaceExport({ workspaces: [] })).toBe(true);
+    expect(isWorkspaceExport({ workspaces: [{ name: 'Default', snapshot }] })).toBe(true);
+  });
+
+  test('should reject data that is not an export', () => {
+    expect(isWorkspaceExport(null)).toBe(false);
+    expect(isWorkspaceExport('workspaces')).toBe(false);
+    expect(isWorkspaceExport([{ name: 'Default', snapshot }])).toBe(false);
+    expect(isWorkspaceExport({})).toBe(false);
+    expect(isWorkspaceExport({ workspaces: { name: 'Default', snapshot } })).toBe(false);
+  });
+
+  test('should reject workspaces without a name or snapshot', () => {
+    expect(isWorkspaceExport({ workspaces: [{ snapshot }] })).toBe(false);
+    expect(isWorkspaceExport({ workspaces: [{ name: 7, snapshot }] })).toBe(false);
+    expect(isWorkspaceExport({ workspaces: [{ name: 'Default' }] })).toBe(false);
+    expect(isWorkspaceExport({ workspaces: [{ name: 'Default', snapshot: null }] })).toBe(false);
+  });
+
+  test('should reject snapshots with malformed windows', () => {
+    const withWindow = (changes: Record<string, unknown>) => ({
+      workspaces: [
+        { name: 'Default', snapshot: { ...snapshot, windows: [{ ...savedWindow, ...changes }] } },
+      ],
+    });
+
+    expect(isWorkspaceExport(withWindow({}))).toBe(true);
+    expect(isWorkspaceExport(withWindow({ x: '300' }))).toBe(false);
+    expect(isWorkspaceExport(withWindow({ width: Number.NaN }))).toBe(false);
+    expect(isWorkspaceExport(withWindow({ height: Infinity }))).toBe(false);
+    expect(isWorkspaceExport(withWindow({ useCaseId: undefined }))).toBe(false);
+    expect(isWorkspaceExport(withWindow({ isMinimized: 'no' }))).toBe(false);
+    expect(isWorkspaceExport(withWindow({ isPinned: 1 }))).toBe(false);
+  });
+
+  test('should reject snapshots without a viewport', () => {
+    const { viewport: _viewport, ...withoutViewport } = snapshot;
+    expect(
+      isWorkspaceExport({ workspaces: [{ name: 'Default', snapshot: withoutViewport }] })
+    ).toBe(false);
+  });
+});
+
+describe('fitToArea', () => {
+  // Area right of an open sidebar of 220px
+  const area = { x: 220, y: 0, width: 1000, height: 700 };
+
+  test('should keep geometry that fits', () => {
+    expect(WorkspaceUtils.fitToArea(savedWindow, area)).toEqual(savedWindow);
+  });
+
+  test('should fill the area with fitted windows', () => {
+    expect(WorkspaceUtils.fitToArea({ ...savedWindow, isFitted: true }, area)).toMatchObject({
+      x: 220,
+      y: 0,
+      width: 1000,
+      height: 700,
+    });
+  });
+
+  test('should shrink oversized windows to the area', () => {
+    expect(
+      WorkspaceUtils.fitToArea({ ...savedWindow, x: 0, y: 0, width: 2560, height: 1440 }, area)
+    ).toMatchObject({ x: 220, y: 0, width: 1000, height: 700 });
+  });
+
+  test('should grow tiny windows to the smallest size', () => {
+    expect(WorkspaceUtils.fitToArea({ ...savedWindow, width: 10, height: 0 }, area)).toMatchObject({
+      width: 300,
+      height: 200,
+    });
+  });
+
+  test('should move off-screen windows back into the area', () => {
+    expect(WorkspaceUtils.fitToArea({ ...savedWindow, x: 3000, y: 2000 }, area)).toMatchObject({
+      x: 820,
+      y: 400,
+    });
+    expect(WorkspaceUtils.fitToArea({ ...savedWindow, x: -500, y: -50 }, area)).toMatchObject({
+      x: 220,
+      y: 0,
+    });
+  });
+
+  test('should keep windows right of the sidebar', () => {
+    expect(WorkspaceUtils.fitToArea({ ...savedWindow, x: 0 }, area).x).toBe(220);
+    expect(WorkspaceUtils.fitToArea({ ...savedWindow, x: 0 }, { ...area, x: 0 }).x).toBe(0);
+  });
+
+  test('should fit areas smaller than the smallest size', () => {
+    const small = { x: 220, y: 0, width: 250, height: 150 };
+    expect(WorkspaceUtils.fitToArea(savedWindow, small)).toMatchObject({
+      x: 220,
+      y: 0,
+      width: 250,
+      height: 150,
+    });
+  });
+
+  test('should keep the other fields', () => {
+    const saved = { ...savedWindow, isMinimized: true, isPinned: true, stackIndex: 3, x: 5000 };
+    expect(WorkspaceUtils.fitToArea(saved, area)).toMatchObject({
+      useCaseId: 'electron-intro',
+      isMinimized: true,
+      isPinned: true,
+      stackIndex: 3,
+    });
+  });
+});